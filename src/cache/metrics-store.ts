@@ -0,0 +1,150 @@
+import {fetchLlamaCppMetrics, LlamaCppClients} from '../utils/llama-cpp-api'
+import type {LlamaCppMetrics, PerformanceSummary} from '../types'
+
+// Rolling history of /metrics samples per baseURL, plus per-session baselines
+export class MetricsStore {
+    private history = new Map<string, LlamaCppMetrics[]>()
+    private sessions = new Map<string, {
+        baseURL: string
+        apiKey?: string
+        baseline?: LlamaCppMetrics
+    }>()
+    // Last scrape per server, also when it found no metrics, for callers that accept a recent answer
+    private recent = new Map<string, {metrics: Promise<LlamaCppMetrics | null>; timestamp: number}>()
+
+    private readonly MAX_SAMPLES = 120 // Samples kept per server
+    private readonly MAX_SERVERS = 50 // Prevent memory leaks
+    private readonly MAX_SESSIONS = 200
+
+    constructor(private readonly clients: LlamaCppClients = new LlamaCppClients()) {
+    }
+
+    // Scrape /metrics and record the sample; returns null when metrics are unavailable
+    // A scrape younger than maxAge is answered again instead of asking the server
+    async scrape(baseURL: string, apiKey?: string, maxAge = 0): Promise<LlamaCppMetrics | null> {
+        const recent = this.recent.get(baseURL)
+        if (recent && Date.now() - recent.timestamp < maxAge) {
+            return await recent.metrics
+        }
+
+        const metrics = fetchLlamaCppMetrics(this.clients.get(baseURL, apiKey)).then(metrics => {
+            if (metrics) {
+                this.record(baseURL, metrics)
+            }
+            return metrics
+        })
+        this.recent.delete(baseURL) // Re-insert to keep the most recent servers last
+        this.recent.set(baseURL, {metrics, timestamp: Date.now()})
+        if (this.recent.size > this.MAX_SERVERS) {
+            const oldest = this.recent.keys().next().value
+            if (oldest !== undefined) {
+                this.recent.delete(oldest)
+            }
+        }
+        return await metrics
+    }
+
+    // Record a sample for a server
+    record(baseURL: string, metrics: LlamaCppMetrics): void {
+        const samples = this.history.get(baseURL) || []
+        samples.push(metrics)
+        if (samples.length > this.MAX_SAMPLES) {
+            samples.splice(0, samples.length - this.MAX_SAMPLES)
+        }
+        this.history.set(baseURL, samples)
+
+        if (this.history.size > this.MAX_SERVERS) {
+            const oldest = this.history.keys().next().value
+            if (oldest !== undefined) {
+                this.history.delete(oldest)
+            }
+        }
+    }
+
+    // Get the most recent sample for a server
+    getLatest(baseURL: string): LlamaCppMetrics | undefined {
+        const samples = this.history.get(baseURL)
+        return samples?.[samples.length - 1]
+    }
+
+    // Get all recorded samples for a server
+    getHistory(baseURL: string): LlamaCppMetrics[] {
+        return [...(this.history.get(baseURL) || [])]
+    }
+
+    // Remember which server a session talks to; the first sample becomes its baseline
+    trackSession(sessionID: string, baseURL: string, apiKey?: string): void {
+        const session = this.sessions.get(sessionID)
+        if (session && session.baseURL === baseURL) {
+            session.baseline ??= this.getLatest(baseURL)
+            return
+        }
+
+        this.sessions.set(sessionID, {baseURL, apiKey, baseline: this.getLatest(baseURL)})
+        if (this.sessions.size > this.MAX_SESSIONS) {
+            const oldest = this.sessions.keys().next().value
+            if (oldest !== undefined) {
+                this.sessions.delete(oldest)
+            }
+        }
+    }
+
+    // Summarize activity since the session's baseline and start a new baseline
+    // Returns undefined for sessions that never used llama.cpp or when metrics are unavailable
+    async summarizeSession(sessionID: string): Promise<PerformanceSummary | undefined> {
+        const session = this.sessions.get(sessionID)
+        if (!session) {
+            return undefined
+        }
+
+        const latest = await this.scrape(session.baseURL, session.apiKey)
+        const baseline = session.baseline
+        session.baseline = latest ?? undefined
+        if (!latest || !baseline) {
+            return undefined
+        }
+
+        return this.summarize(session.baseURL, baseline, latest)
+    }
+
+    // Summarize the throughput between two samples using the monotonic counters
+    summarize(baseURL: string, from: LlamaCppMetrics, to: LlamaCppMetrics): PerformanceSummary {
+        const promptTokens = delta(from.promptTokensTotal, to.promptTokensTotal)
+        const promptSeconds = delta(from.promptSecondsTotal, to.promptSecondsTotal)
+        const predictedTokens = delta(from.predictedTokensTotal, to.predictedTokensTotal)
+        const predictedSeconds = delta(from.predictedSecondsTotal, to.predictedSecondsTotal)
+
+        const samples = this.getHistory(baseURL).filter(sample => sample.timestamp >= from.timestamp && sample.timestamp <= to.timestamp)
+
+        return {
+            baseURL,
+            duration: to.timestamp - from.timestamp,
+            promptTokens,
+            predictedTokens,
+            promptTokensPerSecond: promptSeconds > 0 ? promptTokens / promptSeconds : to.promptTokensPerSecond,
+            predictedTokensPerSecond: predictedSeconds > 0 ? predictedTokens / predictedSeconds : to.predictedTokensPerSecond,
+            kvCacheUsageRatio: to.kvCacheUsageRatio,
+            peakRequestsDeferred: Math.max(0, ...samples.map(sample => sample.requestsDeferred ?? 0))
+        }
+    }
+
+    // Throughput over the recorded history of a server
+    getThroughput(baseURL: string): PerformanceSummary | undefined {
+        const samples = this.history.get(baseURL)
+        if (!samples || samples.length === 0) {
+            return undefined
+        }
+        return this.summarize(baseURL, samples[0], samples[samples.length - 1])
+    }
+}
+
+// Counter difference; a reset (server restart) counts from zero
+function delta(from: number | undefined, to: number | undefined): number {
+    if (to === undefined) {
+        return 0
+    }
+    if (from === undefined || to < from) {
+        return to
+    }
+    return to - from
+}
@@ -0,0 +1,37 @@
+import type {ModelSetChange} from '../types'
+
+// Remembers the last known model set per provider, so later events can re-discover models and report what changed
+// The baseline is the server's model list the provider's config was built from, never the user's configured models
+export class ModelSetTracker {
+    private knownModels = new Map<string, Set<string>>()
+    private inflight: Promise<ModelSetChange[]> | null = null
+
+    // Set the model list a discovery registered for a provider, without reporting changes
+    setBaseline(providerID: string, models: string[]): void {
+        this.knownModels.set(providerID, new Set(models))
+    }
+
+    // Record the current model set of a provider and return what changed since the last update
+    update(providerID: string, baseURL: string, models: string[]): ModelSetChange | null {
+        const known = this.knownModels.get(providerID)
+        const current = new Set(models)
+        this.knownModels.set(providerID, current)
+        if (!known) {
+            return null // Discovery hasn't finished yet; it sets the baseline the models get registered with
+        }
+
+        const added = models.filter(model => !known.has(model))
+        const removed = [...known].filter(model => !current.has(model))
+        return added.length > 0 || removed.length > 0 ? {providerID, baseURL, added, removed} : null
+    }
+
+    // Run one re-discovery at a time; callers arriving meanwhile share the running one
+    async runExclusive(discover: () => Promise<ModelSetChange[]>): Promise<ModelSetChange[]> {
+        if (!this.inflight) {
+            this.inflight = discover().finally(() => {
+                this.inflight = null
+            })
+        }
+        return this.inflight
+    }
+}
@@ -1,73 +1,217 @@
-import type {CacheStats} from '../types'
+import {existsSync, readFileSync} from 'fs'
+import {mkdir, writeFile} from 'fs/promises'
+import {dirname} from 'path'
+import {getDiscoveryCachePath} from '../utils/cache-dir'
+import {CircuitBreaker} from '../monitoring/circuit-breaker'
+import {Logger} from '../utils/logger'
+import type {CacheStats, ModelProbeResult, PersistedDiscovery} from '../types'
+
+export interface ModelStatusCacheOptions {
+    // Keep the last discovery per server on disk so the next start can use it right away
+    persistent?: boolean
+    logger?: Logger
+    // Reported in getStats, so the cache info shows which servers are offline
+    circuitBreaker?: CircuitBreaker
+}
+
+const DISCOVERY_CACHE_VERSION = 1
+// Persisted servers are forgotten once they haven't answered for a week, or on three starts in a row
+const DISCOVERY_MAX_AGE = 7 * 24 * 60 * 60 * 1000
+const MAX_OFFLINE_REVALIDATIONS = 3
+
+interface CacheEntry {
+    models: string[]
+    timestamp: number
+    ttl: number
+    stale?: boolean
+}
+
+// The full model list of a server, or only the models it has loaded
+type CacheView = 'models' | 'loaded'
 
 // Model Status Cache for reducing API calls
 export class ModelStatusCache {
-    private cache = new Map<string, {
-        models: string[]
-        timestamp: number
-        ttl: number
-    }>()
+    private cache = new Map<string, CacheEntry>()
+    private loaded = new Map<string, CacheEntry>()
+    // Running fetches and recent failures, keyed by "<view>:<baseURL>"
+    private inflight = new Map<string, Promise<string[]>>()
+    private failures = new Map<string, {error: unknown; timestamp: number}>()
+    // Last discovery per server, kept apart from the TTL cache so invalidation doesn't drop it
+    private discovery = new Map<string, PersistedDiscovery>()
+    // Persisted servers already counted as offline during this run
+    private offlineRecorded = new Set<string>()
+    // Running capability probes, keyed by "baseURL|model"
+    private inflightProbes = new Map<string, Promise<ModelProbeResult>>()
+    private writeQueue: Promise<void> = Promise.resolve()
 
     private readonly DEFAULT_TTL = 15000 // 15 seconds (reduced for better freshness)
     private readonly MAX_CACHE_SIZE = 50 // Prevent memory leaks
+    private readonly STALE_FACTOR = 5 // Expired entries are served while refreshing until 5x TTL
+    private readonly FAILURE_TTL = 5000 // Offline servers are asked again after 5 seconds
+    private readonly persistent: boolean
+    private readonly logger: Logger
+    private readonly circuitBreaker?: CircuitBreaker
+
+    constructor(options: ModelStatusCacheOptions = {}) {
+        this.persistent = options.persistent === true
+        this.logger = options.logger ?? new Logger()
+        this.circuitBreaker = options.circuitBreaker
+    }
 
     // Get cached model status or fetch fresh data
     async getModels(baseURL: string, fetchFn: () => Promise<string[]>): Promise<string[]> {
+        return this.getEntry('models', baseURL, fetchFn, models => this.recordDiscovery(baseURL, models))
+    }
+
+    // Record the models a full discovery found, so later lookups don't have to ask again
+    setModels(baseURL: string, models: string[]): void {
+        this.cache.set(baseURL, {models: [...models], timestamp: Date.now(), ttl: this.DEFAULT_TTL})
+        this.recordDiscovery(baseURL, models)
+    }
+
+    // Get the models a server has loaded; in router mode only a subset of getModels
+    async getLoadedModels(baseURL: string, fetchFn: () => Promise<string[]>): Promise<string[]> {
+        return this.getEntry('loaded', baseURL, fetchFn)
+    }
+
+    // Record the loaded models seen during discovery, so the first request doesn't have to ask again
+    setLoadedModels(baseURL: string, models: string[]): void {
+        this.loaded.set(baseURL, {models: [...models], timestamp: Date.now(), ttl: this.DEFAULT_TTL})
+    }
+
+    // Bypass the cached loaded models after the server's model set changed (e.g. after loading a model)
+    async refreshLoadedModels(baseURL: string, fetchFn: () => Promise<string[]>): Promise<string[]> {
+        this.loaded.delete(baseURL)
+        this.failures.delete(`loaded:${baseURL}`)
+        return this.getLoadedModels(baseURL, fetchFn)
+    }
+
+    // Serve an entry while its TTL lasts; an expired entry is served while a refresh runs in the background
+    // Entries loaded from disk or far past their TTL wait for the fetch, and a disk entry covers for a failed one.
+    // Once a refresh failed, a live entry is no longer served: callers see the outage until the server answers
+    private async getEntry(
+        view: CacheView,
+        baseURL: string,
+        fetchFn: () => Promise<string[]>,
+        onFetched?: (models: string[]) => void
+    ): Promise<string[]> {
+        const entries = this.getEntries(view)
         const now = Date.now()
-        const cached = this.cache.get(baseURL)
+        const cached = entries.get(baseURL)
 
         // Return cached data if still valid
-        if (cached && (now - cached.timestamp) < cached.ttl) {
+        if (cached && !cached.stale && (now - cached.timestamp) < cached.ttl) {
             return cached.models
         }
 
-        // Fetch fresh data
-        try {
-            const models = await fetchFn()
+        const failure = this.failures.get(`${view}:${baseURL}`)
+        const refreshFailed = failure !== undefined && cached !== undefined && !cached.stale &&
+            failure.timestamp >= cached.timestamp
 
-            // Update cache with new data
-            this.cache.set(baseURL, {
-                models: [...models], // Create copy to prevent mutations
-                timestamp: now,
-                ttl: this.DEFAULT_TTL
+        // Stale-while-revalidate: answer now, the next caller gets the refreshed list
+        if (cached && !cached.stale && !refreshFailed && (now - cached.timestamp) < cached.ttl * this.STALE_FACTOR) {
+            this.fetchEntry(view, baseURL, fetchFn, onFetched).catch(error => {
+                this.logger.debug(`Background cache refresh failed`, {
+                    baseURL,
+                    error: error instanceof Error ? error.message : String(error)
+                })
             })
+            return cached.models
+        }
 
-            // Prevent cache from growing too large
-            if (this.cache.size > this.MAX_CACHE_SIZE) {
-                this.cleanup()
+        // A server that just failed isn't asked again until the failure expires
+        if (failure && (now - failure.timestamp) < this.FAILURE_TTL) {
+            if (cached && !refreshFailed) {
+                return cached.models
             }
+            throw failure.error
+        }
 
-
-            return models
+        // Fetch fresh data
+        try {
+            return await this.fetchEntry(view, baseURL, fetchFn, onFetched)
         } catch (error) {
-            // If we have stale cached data, return it as fallback but mark as potentially invalid
-            if (cached) {
-                console.warn(`[opencode-llama-cpp] Using stale cache data due to fetch error`, {
+            // The models from the last run stand in while the server is unreachable
+            if (cached?.stale) {
+                this.logger.warn(`Using stale cache data due to fetch error`, {
                     baseURL,
                     age: now - cached.timestamp,
                     error: error instanceof Error ? error.message : String(error)
                 })
-                // Invalidate cache if it's very old (> 5x TTL)
-                if (now - cached.timestamp > cached.ttl * 5) {
-                    this.invalidate(baseURL)
-                }
                 return cached.models
             }
+            // Invalidate cache if it's very old (> 5x TTL)
+            if (cached && now - cached.timestamp > cached.ttl * this.STALE_FACTOR) {
+                entries.delete(baseURL)
+            }
             throw error
         }
     }
 
+    // Single flight: callers arriving while a fetch for the same server and view runs share its result
+    private fetchEntry(
+        view: CacheView,
+        baseURL: string,
+        fetchFn: () => Promise<string[]>,
+        onFetched?: (models: string[]) => void
+    ): Promise<string[]> {
+        const key = `${view}:${baseURL}`
+        const running = this.inflight.get(key)
+        if (running) {
+            return running
+        }
+
+        const entries = this.getEntries(view)
+        const request = (async () => {
+            try {
+                const models = await fetchFn()
+
+                // Update cache with new data
+                entries.set(baseURL, {
+                    models: [...models], // Create copy to prevent mutations
+                    timestamp: Date.now(),
+                    ttl: entries.get(baseURL)?.ttl ?? this.DEFAULT_TTL
+                })
+                this.failures.delete(key)
+
+                // Prevent cache from growing too large
+                if (entries.size > this.MAX_CACHE_SIZE) {
+                    this.cleanup(entries)
+                }
+
+                onFetched?.(models)
+                return models
+            } catch (error) {
+                this.failures.set(key, {error, timestamp: Date.now()})
+                throw error
+            }
+        })().finally(() => {
+            this.inflight.delete(key)
+        })
+        this.inflight.set(key, request)
+        return request
+    }
+
+    private getEntries(view: CacheView): Map<string, CacheEntry> {
+        return view === 'models' ? this.cache : this.loaded
+    }
+
     // Invalidate cache for specific URL
     invalidate(baseURL: string): void {
         this.cache.delete(baseURL)
-        console.debug(`[opencode-llama-cpp:DEBUG] Invalidated cache entry`, {baseURL})
+        this.loaded.delete(baseURL)
+        this.failures.delete(`models:${baseURL}`)
+        this.failures.delete(`loaded:${baseURL}`)
+        this.logger.debug(`Invalidated cache entry`, {baseURL})
     }
 
     // Invalidate entire cache
     invalidateAll(): void {
         const size = this.cache.size
         this.cache.clear()
-        console.debug(`[opencode-llama-cpp:DEBUG] Cleared entire cache`, {previousSize: size})
+        this.loaded.clear()
+        this.failures.clear()
+        this.logger.debug(`Cleared entire cache`, {previousSize: size})
     }
 
     // Force refresh for specific URL (useful after model changes)
@@ -85,17 +229,201 @@ export class ModelStatusCache {
                 baseURL,
                 age: now - data.timestamp,
                 modelCount: data.models.length,
-                ttl: data.ttl
-            }))
+                ttl: data.ttl,
+                stale: data.stale === true
+            })),
+            ...(this.circuitBreaker ? {circuits: this.circuitBreaker.getStates()} : {})
+        }
+    }
+
+    // Load the last discovery from disk; entries stay marked stale until a fetch revalidates them
+    // Servers that haven't answered for too long are skipped, so they are neither restored nor registered again
+    // Reading is synchronous on purpose: it runs once at startup and must finish before the config is read
+    loadPersisted(): Map<string, PersistedDiscovery> {
+        const loaded = new Map<string, PersistedDiscovery>()
+        if (!this.persistent) {
+            return loaded
+        }
+
+        const path = getDiscoveryCachePath()
+        if (!existsSync(path)) {
+            return loaded
+        }
+
+        try {
+            const data = JSON.parse(readFileSync(path, 'utf-8'))
+            if (data?.version !== DISCOVERY_CACHE_VERSION || !data.servers || typeof data.servers !== 'object') {
+                return loaded
+            }
+
+            for (const [baseURL, entry] of Object.entries<any>(data.servers)) {
+                if (!Array.isArray(entry?.models) || typeof entry.timestamp !== 'number') {
+                    continue
+                }
+                const offlineRevalidations = typeof entry.offlineRevalidations === 'number' ? entry.offlineRevalidations : 0
+                if (Date.now() - entry.timestamp > DISCOVERY_MAX_AGE || offlineRevalidations >= MAX_OFFLINE_REVALIDATIONS) {
+                    this.logger.debug(`Dropping expired discovery cache entry`, {baseURL, offlineRevalidations})
+                    continue
+                }
+                const persisted: PersistedDiscovery = {
+                    models: entry.models,
+                    modelConfigs: entry.modelConfigs && typeof entry.modelConfigs === 'object' ? entry.modelConfigs : {},
+                    timestamp: entry.timestamp,
+                    offlineRevalidations,
+                    probes: entry.probes && typeof entry.probes === 'object' ? entry.probes : {}
+                }
+                this.discovery.set(baseURL, persisted)
+                loaded.set(baseURL, persisted)
+                if (!this.cache.has(baseURL)) {
+                    this.cache.set(baseURL, {
+                        models: [...persisted.models],
+                        timestamp: persisted.timestamp,
+                        ttl: this.DEFAULT_TTL,
+                        stale: true
+                    })
+                }
+            }
+            return loaded
+        } catch (error) {
+            this.logger.warn(`Ignoring unreadable discovery cache`, {
+                path,
+                error: error instanceof Error ? error.message : String(error)
+            })
+            return loaded
+        }
+    }
+
+    // Model IDs from the last discovery of a server (fresh or loaded from disk)
+    getDiscoveredModels(baseURL: string): string[] | undefined {
+        return this.discovery.get(baseURL)?.models
+    }
+
+    // Model configs from the last discovery of a server (fresh or loaded from disk)
+    getModelConfigs(baseURL: string): Record<string, any> | undefined {
+        return this.discovery.get(baseURL)?.modelConfigs
+    }
+
+    // Remember the model configs built during discovery so they can be restored on the next start
+    setModelConfigs(baseURL: string, modelConfigs: Record<string, any>): void {
+        const previous = this.discovery.get(baseURL)
+        this.discovery.set(baseURL, {
+            models: previous?.models || Object.values(modelConfigs).map(config => config.id),
+            modelConfigs,
+            timestamp: Date.now(),
+            probes: previous?.probes
+        })
+        if (this.persistent) {
+            this.save()
         }
     }
 
+    // Probe results of a model, unless they were recorded against another fingerprint
+    getProbeResult(baseURL: string, modelId: string, fingerprint: string): ModelProbeResult | undefined {
+        const result = this.discovery.get(baseURL)?.probes?.[modelId]
+        return result?.fingerprint === fingerprint ? result : undefined
+    }
+
+    // Run the probes of a model and record what they found next to the discovery, so the next start can skip them
+    // Callers arriving while the probes of a model run share their result
+    probeModel(
+        baseURL: string,
+        modelId: string,
+        fingerprint: string,
+        probeFn: () => Promise<Omit<ModelProbeResult, 'fingerprint'>>
+    ): Promise<ModelProbeResult> {
+        const key = `${baseURL}|${modelId}`
+        const running = this.inflightProbes.get(key)
+        if (running) {
+            return running
+        }
+
+        const request = probeFn()
+            .then(found => {
+                const result = {...this.getProbeResult(baseURL, modelId, fingerprint), ...found, fingerprint}
+                const previous = this.discovery.get(baseURL)
+                this.discovery.set(baseURL, {
+                    models: previous?.models || [modelId],
+                    modelConfigs: previous?.modelConfigs || {},
+                    timestamp: previous?.timestamp ?? Date.now(),
+                    offlineRevalidations: previous?.offlineRevalidations,
+                    probes: {...previous?.probes, [modelId]: result}
+                })
+                if (this.persistent) {
+                    this.save()
+                }
+                return result
+            })
+            .finally(() => {
+                this.inflightProbes.delete(key)
+            })
+        this.inflightProbes.set(key, request)
+        return request
+    }
+
+    // Count a start on which a persisted server could not be reached; a later discovery resets the count
+    recordOfflineRevalidation(baseURL: string): void {
+        const previous = this.discovery.get(baseURL)
+        if (!previous || !this.persistent || this.offlineRecorded.has(baseURL)) {
+            return
+        }
+        this.offlineRecorded.add(baseURL)
+        this.discovery.set(baseURL, {...previous, offlineRevalidations: (previous.offlineRevalidations ?? 0) + 1})
+        this.save()
+    }
+
+    // Check if an entry was loaded from disk and not revalidated yet
+    isStale(baseURL: string): boolean {
+        return this.cache.get(baseURL)?.stale === true
+    }
+
+    // Resolves once pending writes to the discovery file are done
+    async flush(): Promise<void> {
+        await this.writeQueue
+    }
+
+    private recordDiscovery(baseURL: string, models: string[]): void {
+        if (!this.persistent) {
+            return
+        }
+        const previous = this.discovery.get(baseURL)
+        this.discovery.set(baseURL, {
+            models: [...models],
+            modelConfigs: previous?.modelConfigs || {},
+            timestamp: Date.now(),
+            // Models the server no longer has don't need their probe results
+            probes: previous?.probes && Object.fromEntries(
+                Object.entries(previous.probes).filter(([modelId]) => models.includes(modelId))
+            )
+        })
+        this.save()
+    }
+
+    // Queue a write so concurrent discoveries don't interleave on disk
+    private save(): void {
+        const path = getDiscoveryCachePath()
+        const data = {
+            version: DISCOVERY_CACHE_VERSION,
+            servers: Object.fromEntries(this.discovery)
+        }
+        this.writeQueue = this.writeQueue
+            .then(async () => {
+                await mkdir(dirname(path), {recursive: true})
+                await writeFile(path, JSON.stringify(data, null, 2), 'utf-8')
+            })
+            .catch(error => {
+                this.logger.warn(`Could not write discovery cache`, {
+                    path,
+                    error: error instanceof Error ? error.message : String(error)
+                })
+            })
+    }
+
     // Configure TTL for specific use cases
     setTTL(baseURL: string, ttl: number): void {
         const cached = this.cache.get(baseURL)
         if (cached) {
             cached.ttl = ttl
-            console.debug(`[opencode-llama-cpp:DEBUG] Updated TTL for cache entry`, {baseURL, ttl})
+            this.logger.debug(`Updated TTL for cache entry`, {baseURL, ttl})
         }
     }
 
@@ -103,27 +431,27 @@ export class ModelStatusCache {
     isValid(baseURL: string): boolean {
         const cached = this.cache.get(baseURL)
         const now = Date.now()
-        return cached !== undefined && (now - cached.timestamp) < cached.ttl
+        return cached !== undefined && !cached.stale && (now - cached.timestamp) < cached.ttl
     }
 
     // Cleanup old entries to prevent memory leaks
-    private cleanup(): void {
+    private cleanup(entries: Map<string, CacheEntry>): void {
         const now = Date.now()
         const toDelete: string[] = []
 
-        for (const [baseURL, data] of this.cache.entries()) {
+        for (const [baseURL, data] of entries.entries()) {
             // Delete entries older than 5x TTL or if cache is too large
-            if (now - data.timestamp > data.ttl * 5 || this.cache.size > this.MAX_CACHE_SIZE) {
+            if (now - data.timestamp > data.ttl * 5 || entries.size > this.MAX_CACHE_SIZE) {
                 toDelete.push(baseURL)
             }
         }
 
-        toDelete.forEach(baseURL => this.cache.delete(baseURL))
+        toDelete.forEach(baseURL => entries.delete(baseURL))
 
         if (toDelete.length > 0) {
-            console.debug(`[opencode-llama-cpp:DEBUG] Cleaned up cache entries`, {
+            this.logger.debug(`Cleaned up cache entries`, {
                 deleted: toDelete.length,
-                remaining: this.cache.size
+                remaining: entries.size
             })
         }
     }
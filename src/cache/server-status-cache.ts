@@ -0,0 +1,39 @@
+import {getServerStatus} from '../monitoring/server-status'
+import {LlamaCppClients} from '../utils/llama-cpp-api'
+import type {LlamaCppServerStatus} from '../types'
+
+// How long health, slots and metrics of a server are reused; chat.params runs before every LLM step
+export const SERVER_STATUS_TTL = 5000
+
+// Health and slots per baseURL, asked at most once per TTL; callers arriving meanwhile share one request
+export class ServerStatusCache {
+    private entries = new Map<string, {status: Promise<LlamaCppServerStatus>; timestamp: number}>()
+
+    private readonly MAX_SERVERS = 50 // Prevent memory leaks
+
+    constructor(private readonly clients: LlamaCppClients = new LlamaCppClients()) {
+    }
+
+    async get(baseURL: string, apiKey?: string): Promise<LlamaCppServerStatus> {
+        const cached = this.entries.get(baseURL)
+        if (cached && Date.now() - cached.timestamp < SERVER_STATUS_TTL) {
+            return await cached.status
+        }
+
+        const status = getServerStatus(this.clients.get(baseURL, apiKey))
+        this.entries.set(baseURL, {status, timestamp: Date.now()})
+        if (this.entries.size > this.MAX_SERVERS) {
+            const oldest = this.entries.keys().next().value
+            if (oldest !== undefined) {
+                this.entries.delete(oldest)
+            }
+        }
+
+        try {
+            return await status
+        } catch (error) {
+            this.entries.delete(baseURL)
+            throw error
+        }
+    }
+}
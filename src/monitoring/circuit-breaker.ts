@@ -0,0 +1,87 @@
+import type {CircuitBreakerOptions, CircuitState, CircuitStatus} from '../types'
+
+interface Circuit {
+    state: CircuitState
+    failures: number
+    openedAt: number
+    // A half-open circuit lets a single request through to probe the server
+    probing: boolean
+}
+
+// Circuit breaker per llama.cpp server
+// closed: requests go through. open: the server is offline, requests fail fast without contacting it.
+// half-open: after the reset timeout one request probes the server; success closes the circuit, failure reopens it.
+export class CircuitBreaker {
+    private circuits = new Map<string, Circuit>()
+    private readonly failureThreshold: number
+    private readonly resetTimeout: number
+
+    constructor(options: CircuitBreakerOptions = {}) {
+        this.failureThreshold = options.failureThreshold ?? 1 // Validation already retries before it counts as a failure
+        this.resetTimeout = options.resetTimeout ?? 10000 // 10 seconds
+    }
+
+    // Current state of a server's circuit; an open circuit turns half-open once the reset timeout passed
+    getState(baseURL: string): CircuitState {
+        const circuit = this.circuits.get(baseURL)
+        if (!circuit) {
+            return 'closed'
+        }
+        if (circuit.state === 'open' && Date.now() - circuit.openedAt >= this.resetTimeout) {
+            circuit.state = 'half-open'
+            circuit.probing = false
+        }
+        return circuit.state
+    }
+
+    // Whether a request may contact the server; a half-open circuit admits one probe at a time
+    tryAcquire(baseURL: string): boolean {
+        const state = this.getState(baseURL)
+        if (state === 'closed') {
+            return true
+        }
+        const circuit = this.circuits.get(baseURL)!
+        if (state === 'half-open' && !circuit.probing) {
+            circuit.probing = true
+            return true
+        }
+        return false
+    }
+
+    // Record a request that reached the server; returns true when this closed an open or half-open circuit
+    recordSuccess(baseURL: string): boolean {
+        const circuit = this.circuits.get(baseURL)
+        this.circuits.delete(baseURL)
+        return circuit !== undefined && circuit.state !== 'closed'
+    }
+
+    // Record a request that couldn't reach the server; returns true when this started a new outage
+    recordFailure(baseURL: string): boolean {
+        const circuit = this.circuits.get(baseURL) || {state: 'closed', failures: 0, openedAt: 0, probing: false}
+        const wasClosed = circuit.state === 'closed'
+        circuit.failures++
+        circuit.probing = false
+        if (!wasClosed || circuit.failures >= this.failureThreshold) {
+            circuit.state = 'open'
+            circuit.openedAt = Date.now()
+        }
+        this.circuits.set(baseURL, circuit)
+        return wasClosed && circuit.state === 'open'
+    }
+
+    // State of one server, with the time until an open circuit lets the next probe through
+    getStatus(baseURL: string): CircuitStatus {
+        const state = this.getState(baseURL)
+        const circuit = this.circuits.get(baseURL)
+        return {
+            state,
+            failures: circuit?.failures ?? 0,
+            retryIn: state === 'open' && circuit ? Math.max(0, this.resetTimeout - (Date.now() - circuit.openedAt)) : undefined
+        }
+    }
+
+    // States of every server with a failure on record
+    getStates(): Record<string, CircuitState> {
+        return Object.fromEntries([...this.circuits.keys()].map(baseURL => [baseURL, this.getState(baseURL)]))
+    }
+}
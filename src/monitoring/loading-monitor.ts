@@ -1,143 +1,265 @@
-import type {LoadingStatus, ModelLoadingState} from '../types'
+import {ModelStatusCache} from '../cache/model-status-cache'
+import {fetchLlamaCppHealth, fetchLlamaCppModelsDirect, LlamaCppClients} from '../utils/llama-cpp-api'
+import {Logger} from '../utils/logger'
+import type {ModelLoadingEvent, ModelLoadingMonitorOptions, ModelLoadingState} from '../types'
+
+type LoadingListener = (event: ModelLoadingEvent) => void
+
+function monitorKey(baseURL: string, modelId: string): string {
+    return `${baseURL}|${modelId}`
+}
 
 // Model Loading State Monitor with periodic polling
+// State is kept per "baseURL|model", so the same model loading on two servers is tracked separately
 export class ModelLoadingMonitor {
     private loadingStates = new Map<string, ModelLoadingState>()
     private pollingIntervals = new Map<string, NodeJS.Timeout>()
-    private readonly POLL_INTERVAL = 2000 // 2 seconds
-    private readonly LOADING_TIMEOUT = 300000 // 5 minutes
+    private loadingTimeouts = new Map<string, NodeJS.Timeout>()
+    private loadDurations = new Map<string, number[]>()
+    private listeners = new Set<LoadingListener>()
+    private readonly pollInterval: number
+    private readonly loadingTimeout: number
+    private readonly WAIT_INTERVAL = 500 // How often waiters re-check the state
+    private readonly MAX_DURATION_HISTORY = 5 // Load durations kept per model for ETA estimates
+
+    constructor(
+        private readonly modelStatusCache: ModelStatusCache = new ModelStatusCache(),
+        options: ModelLoadingMonitorOptions = {},
+        private readonly logger: Logger = new Logger(),
+        private readonly clients: LlamaCppClients = new LlamaCppClients(logger)
+    ) {
+        this.pollInterval = options.pollInterval ?? 2000 // 2 seconds
+        this.loadingTimeout = options.loadingTimeout ?? 300000 // 5 minutes
+    }
+
+    // Subscribe to loading state changes, returns an unsubscribe function
+    onStateChange(listener: LoadingListener): () => void {
+        this.listeners.add(listener)
+        return () => {
+            this.listeners.delete(listener)
+        }
+    }
 
     // Start monitoring a specific model
-    startMonitoring(modelId: string, baseURL: string): void {
-        const currentState = this.loadingStates.get(modelId) || {status: 'not_loaded'}
+    startMonitoring(modelId: string, baseURL: string, options: ModelLoadingMonitorOptions = {}): void {
+        const key = monitorKey(baseURL, modelId)
+        const currentState = this.loadingStates.get(key) || {status: 'not_loaded'}
 
         if (currentState.status === 'loading') {
             return // Already monitoring
         }
 
-        this.loadingStates.set(modelId, {
+        const pollInterval = options.pollInterval ?? this.pollInterval
+        const loadingTimeout = options.loadingTimeout ?? this.loadingTimeout
+
+        // Clear any existing interval
+        this.stopMonitoring(modelId, baseURL)
+
+        this.updateState(modelId, baseURL, {
             status: 'loading',
             startTime: Date.now(),
-            progress: 0
+            progress: 0,
+            eta: this.estimateLoadDuration(key)
         })
 
-        console.info(`[opencode-llama-cpp] Started monitoring model loading`, {modelId, baseURL})
-
-        // Clear any existing interval
-        this.stopMonitoring(modelId)
+        this.logger.info(`Started monitoring model loading`, {modelId, baseURL})
 
         // Start polling
         const interval = setInterval(() => {
-            this.checkLoadingProgress(modelId, baseURL, async () => [])
-        }, this.POLL_INTERVAL)
+            void this.checkLoadingProgress(modelId, baseURL, loadingTimeout, options.apiKey)
+        }, pollInterval)
+
+        this.pollingIntervals.set(key, interval)
 
-        this.pollingIntervals.set(modelId, interval)
+        // Check right away so fast loads don't wait a full poll interval
+        void this.checkLoadingProgress(modelId, baseURL, loadingTimeout, options.apiKey)
 
         // Set timeout
-        setTimeout(() => {
-            const state = this.loadingStates.get(modelId)
+        const timeout = setTimeout(() => {
+            const state = this.loadingStates.get(key)
             if (state && state.status === 'loading') {
-                this.updateState(modelId, 'error', undefined, undefined, 'Loading timeout after 5 minutes')
+                this.updateState(modelId, baseURL, {
+                    ...state,
+                    status: 'error',
+                    progress: undefined,
+                    eta: undefined,
+                    error: `Loading timeout after ${Math.ceil(loadingTimeout / 1000)}s`
+                })
             }
-        }, this.LOADING_TIMEOUT)
+            this.stopMonitoring(modelId, baseURL)
+        }, loadingTimeout)
+
+        this.loadingTimeouts.set(key, timeout)
     }
 
     // Stop monitoring a model
-    stopMonitoring(modelId: string): void {
-        const interval = this.pollingIntervals.get(modelId)
+    stopMonitoring(modelId: string, baseURL: string): void {
+        const key = monitorKey(baseURL, modelId)
+        const timeout = this.loadingTimeouts.get(key)
+        if (timeout) {
+            clearTimeout(timeout)
+            this.loadingTimeouts.delete(key)
+        }
+
+        const interval = this.pollingIntervals.get(key)
         if (interval) {
             clearInterval(interval)
-            this.pollingIntervals.delete(modelId)
-            console.debug(`[opencode-llama-cpp:DEBUG] Stopped monitoring model`, {modelId})
+            this.pollingIntervals.delete(key)
+            this.logger.debug(`Stopped monitoring model`, {modelId, baseURL})
         }
     }
 
+    // Wait until a monitored model leaves the loading state, reporting progress along the way
+    waitForLoad(modelId: string, baseURL: string, onProgress?: (state: ModelLoadingState) => void): Promise<ModelLoadingState> {
+        const key = monitorKey(baseURL, modelId)
+        return new Promise(resolve => {
+            const check = () => {
+                const state = this.loadingStates.get(key)
+                if (!state || state.status !== 'loading') {
+                    resolve(state || {status: 'not_loaded'})
+                    return
+                }
+                onProgress?.(state)
+                setTimeout(check, this.WAIT_INTERVAL)
+            }
+            check()
+        })
+    }
+
     // Get current state
-    getState(modelId: string): ModelLoadingState | undefined {
-        return this.loadingStates.get(modelId)
+    getState(modelId: string, baseURL: string): ModelLoadingState | undefined {
+        return this.loadingStates.get(monitorKey(baseURL, modelId))
     }
 
-    // Get all monitoring states
+    // Get all monitoring states, keyed by "baseURL|model"
     getAllStates(): Map<string, ModelLoadingState> {
         return new Map(this.loadingStates)
     }
 
     // Cleanup all monitoring
     cleanup(): void {
-        for (const [modelId, interval] of this.pollingIntervals.entries()) {
+        for (const [key, interval] of this.pollingIntervals.entries()) {
             clearInterval(interval)
-            this.pollingIntervals.delete(modelId)
+            this.pollingIntervals.delete(key)
         }
+        for (const timeout of this.loadingTimeouts.values()) {
+            clearTimeout(timeout)
+        }
+        this.loadingTimeouts.clear()
         this.loadingStates.clear()
-        console.debug(`[opencode-llama-cpp:DEBUG] Cleaned up all monitoring states`)
+        this.logger.debug(`Cleaned up all monitoring states`)
     }
 
-    // Check loading progress
-    private async checkLoadingProgress(modelId: string, baseURL: string, getModelsFn?: () => Promise<string[]>): Promise<void> {
+    // Check loading progress via /health (503 while loading) and the loaded model list
+    private async checkLoadingProgress(modelId: string, baseURL: string, loadingTimeout: number, apiKey?: string): Promise<void> {
+        const key = monitorKey(baseURL, modelId)
+        const client = this.clients.get(baseURL, apiKey)
         try {
-            const models = await getModelsFn?.() || []
-
-            const isLoaded = models.includes(modelId)
-            const state = this.loadingStates.get(modelId)
+            const health = await fetchLlamaCppHealth(client)
 
+            const state = this.loadingStates.get(key)
             if (!state || state.status !== 'loading') {
-                this.stopMonitoring(modelId)
+                this.stopMonitoring(modelId, baseURL)
+                return
+            }
+
+            if (health.status === 'error') {
+                this.updateState(modelId, baseURL, {
+                    ...state,
+                    status: 'error',
+                    progress: undefined,
+                    eta: undefined,
+                    error: health.message
+                })
+                this.stopMonitoring(modelId, baseURL)
                 return
             }
 
-            if (isLoaded) {
-                const duration = Date.now() - (state.startTime || Date.now())
-                this.updateState(modelId, 'loaded', 100, 0)
-                this.stopMonitoring(modelId)
-                console.info(`[opencode-llama-cpp] Model loading completed`, {
+            // Go through the cache so other callers see the fresh model list
+            const models = health.status === 'ok'
+                ? await this.modelStatusCache.refreshLoadedModels(baseURL, () => fetchLlamaCppModelsDirect(client).catch(() => []))
+                : []
+
+            // The load may have timed out or been stopped while the model list was fetched
+            if (this.loadingStates.get(key)?.status !== 'loading') {
+                return
+            }
+
+            const elapsed = Date.now() - (state.startTime || Date.now())
+            if (models.includes(modelId)) {
+                this.recordLoadDuration(key, elapsed)
+                this.updateState(modelId, baseURL, {...state, status: 'loaded', progress: 100, eta: 0})
+                this.stopMonitoring(modelId, baseURL)
+                this.logger.info(`Model loading completed`, {
                     modelId,
-                    duration: `${duration}ms`,
+                    duration: `${elapsed}ms`,
                     totalModels: this.loadingStates.size
                 })
-            } else {
-                // Estimate progress based on time elapsed
-                const elapsed = Date.now() - (state.startTime || Date.now())
-                const progress = Math.min(90, (elapsed / this.LOADING_TIMEOUT) * 100)
-                const eta = Math.max(0, this.LOADING_TIMEOUT - elapsed)
-
-                this.updateState(modelId, 'loading', progress, eta)
+                return
             }
+
+            // Estimate progress from earlier load durations, or from the timeout when there is no history
+            const expected = this.estimateLoadDuration(key)
+            const progress = expected
+                ? Math.min(95, (elapsed / expected) * 100)
+                : Math.min(90, (elapsed / loadingTimeout) * 100)
+            const eta = expected ? Math.max(0, expected - elapsed) : undefined
+
+            this.updateState(modelId, baseURL, {...state, status: 'loading', progress, eta})
         } catch (error) {
-            this.updateState(modelId, 'error', undefined, undefined,
-                error instanceof Error ? error.message : String(error)
-            )
+            const state = this.loadingStates.get(key) || {status: 'not_loaded'}
+            this.updateState(modelId, baseURL, {
+                ...state,
+                status: 'error',
+                progress: undefined,
+                eta: undefined,
+                error: error instanceof Error ? error.message : String(error)
+            })
+            this.stopMonitoring(modelId, baseURL)
         }
     }
 
-    // Update loading state
-    private updateState(
-        modelId: string,
-        status: LoadingStatus,
-        progress?: number,
-        eta?: number,
-        error?: string
-    ): void {
-        const currentState = this.loadingStates.get(modelId) || {status: 'not_loaded'}
-
-        const newState = {
-            ...currentState,
-            status,
-            progress,
-            eta,
-            error
+    // Average of earlier loads of this model on this server, falling back to the average of all loads
+    private estimateLoadDuration(key: string): number | undefined {
+        const durations = this.loadDurations.get(key)
+            ?? Array.from(this.loadDurations.values()).flat()
+        if (durations.length === 0) {
+            return undefined
         }
+        return durations.reduce((sum, duration) => sum + duration, 0) / durations.length
+    }
+
+    private recordLoadDuration(key: string, duration: number): void {
+        const durations = this.loadDurations.get(key) || []
+        durations.push(duration)
+        this.loadDurations.set(key, durations.slice(-this.MAX_DURATION_HISTORY))
+    }
+
+    // Update loading state and notify listeners
+    private updateState(modelId: string, baseURL: string, newState: ModelLoadingState): void {
+        const key = monitorKey(baseURL, modelId)
+        const currentState = this.loadingStates.get(key) || {status: 'not_loaded'}
 
-        this.loadingStates.set(modelId, newState)
+        this.loadingStates.set(key, newState)
 
         // Log state changes
-        if (currentState.status !== status) {
-            if (status === 'loaded') {
-                console.info(`[opencode-llama-cpp] Model loading completed`, {modelId})
-            } else if (status === 'error') {
-                console.warn(`[opencode-llama-cpp] Model loading failed`, {modelId, error})
-            } else if (status === 'loading') {
-                console.info(`[opencode-llama-cpp] Model loading started`, {modelId})
+        if (currentState.status !== newState.status) {
+            if (newState.status === 'loaded') {
+                this.logger.info(`Model loading completed`, {modelId})
+            } else if (newState.status === 'error') {
+                this.logger.warn(`Model loading failed`, {modelId, error: newState.error})
+            } else if (newState.status === 'loading') {
+                this.logger.info(`Model loading started`, {modelId})
+            }
+        }
+
+        const event: ModelLoadingEvent = {modelId, baseURL, previousStatus: currentState.status, state: newState}
+        for (const listener of this.listeners) {
+            try {
+                listener(event)
+            } catch (error) {
+                this.logger.warn(`Loading state listener failed`, error)
             }
         }
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,119 @@
+import {countLlamaCppTokens} from '../utils/llama-cpp-api'
+import type {LlamaCppTarget} from '../utils/llama-cpp-api'
+import type {PromptBudget} from '../types'
+
+// Tokens the captured text leaves out: the chat template's markup around every message, and the tool
+// definitions OpenCode sends to tool-capable models. A fixed margin, since chat.params sees neither
+const TEMPLATE_TOKENS_PER_MESSAGE = 8
+const TOOL_DEFINITIONS_TOKENS = 2048
+
+// The prompt parts of a session that were tokenized last, and their token count
+interface CountedPrompt {
+    parts: string[]
+    tokens: number
+}
+
+// Keeps the latest prompt text per session, captured by the messages/system transform hooks
+// so chat.params (which only sees message metadata) can count the real prompt size
+export class PromptTracker {
+    private systemPrompts = new Map<string, string>()
+    // Text per message, in conversation order
+    private conversations = new Map<string, string[]>()
+    private counted = new Map<string, CountedPrompt>()
+
+    private readonly MAX_SESSIONS = 200 // Prevent memory leaks
+
+    recordSystem(sessionID: string, system: string[]): void {
+        this.remember(this.systemPrompts, sessionID, system.join('\n'))
+    }
+
+    // Collect the text the model will see: message text and completed tool outputs
+    recordMessages(messages: Array<{ info?: any; parts?: any[] }>): void {
+        const bySession = new Map<string, string[]>()
+        for (const message of messages) {
+            const sessionID = message.info?.sessionID
+            if (typeof sessionID !== 'string') {
+                continue
+            }
+            const texts: string[] = []
+            for (const part of message.parts || []) {
+                if (part?.type === 'text' && typeof part.text === 'string' && !part.ignored) {
+                    texts.push(part.text)
+                } else if (part?.type === 'tool' && part.state?.status === 'completed' && typeof part.state.output === 'string') {
+                    texts.push(part.state.output)
+                }
+            }
+            const conversation = bySession.get(sessionID) || []
+            if (texts.length > 0) {
+                conversation.push(texts.join('\n'))
+            }
+            bySession.set(sessionID, conversation)
+        }
+
+        for (const [sessionID, conversation] of bySession) {
+            this.remember(this.conversations, sessionID, conversation)
+        }
+    }
+
+    // Get the prompt of a session, system prompt first and then one part per message
+    // Returns undefined if no messages were captured
+    getPromptParts(sessionID: string): string[] | undefined {
+        const conversation = this.conversations.get(sessionID)
+        if (conversation === undefined) {
+            return undefined
+        }
+        const system = this.systemPrompts.get(sessionID)
+        return system ? [system, ...conversation] : [...conversation]
+    }
+
+    // Count the prompt tokens of a session with `count`, tokenizing only the messages added since the last count
+    // The whole prompt is counted again when earlier parts changed, e.g. after a compaction
+    async countTokens(sessionID: string, count: (text: string) => Promise<number | null>): Promise<{ tokens: number; parts: number } | null> {
+        const parts = this.getPromptParts(sessionID)
+        if (!parts || parts.length === 0) {
+            return null
+        }
+
+        const previous = this.counted.get(sessionID)
+        const continues = previous !== undefined && previous.parts.length <= parts.length &&
+            previous.parts.every((part, index) => part === parts[index])
+        const added = continues ? parts.slice(previous.parts.length) : parts
+        const addedTokens = added.length > 0 ? await count(added.join('\n')) : 0
+        if (addedTokens === null) {
+            return null
+        }
+
+        const tokens = (continues ? previous.tokens : 0) + addedTokens
+        this.remember(this.counted, sessionID, {parts, tokens})
+        return {tokens, parts: parts.length}
+    }
+
+    private remember<T>(store: Map<string, T>, sessionID: string, value: T): void {
+        store.delete(sessionID) // Re-insert to keep the most recent sessions last
+        store.set(sessionID, value)
+        if (store.size > this.MAX_SESSIONS) {
+            const oldest = store.keys().next().value
+            if (oldest !== undefined) {
+                store.delete(oldest)
+            }
+        }
+    }
+}
+
+// Count a session's prompt tokens with the server tokenizer and compare against the context size
+// The count covers the captured text; `reserved` adds the template markup and, for tool-capable models,
+// the tool definitions, so a prompt that only fits without them is reported as exceeding the context
+export async function checkPromptBudget(
+    server: LlamaCppTarget,
+    tracker: PromptTracker,
+    sessionID: string,
+    contextSize: number,
+    options: { apiKey?: string; model?: string; tools?: boolean } = {}
+): Promise<PromptBudget | undefined> {
+    const counted = await tracker.countTokens(sessionID, text => countLlamaCppTokens(server, text, options.apiKey, options.model))
+    if (!counted) {
+        return undefined
+    }
+    const reserved = counted.parts * TEMPLATE_TOKENS_PER_MESSAGE + (options.tools === false ? 0 : TOOL_DEFINITIONS_TOKENS)
+    return {tokens: counted.tokens, reserved, contextSize, exceeded: counted.tokens + reserved > contextSize}
+}
@@ -0,0 +1,41 @@
+import {fetchLlamaCppHealth, fetchLlamaCppSlots} from '../utils/llama-cpp-api'
+import type {LlamaCppTarget} from '../utils/llama-cpp-api'
+import type {LlamaCppServerStatus, LlamaCppSlot, SlotStatus} from '../types'
+
+// Newer builds report is_processing, older ones a numeric state
+function isSlotBusy(slot: LlamaCppSlot): boolean {
+    if (typeof slot.is_processing === 'boolean') {
+        return slot.is_processing
+    }
+    return slot.state !== undefined && slot.state !== 0
+}
+
+export function summarizeSlots(slots: LlamaCppSlot[]): SlotStatus[] {
+    return slots.map(slot => ({
+        id: slot.id,
+        busy: isSlotBusy(slot),
+        contextSize: slot.n_ctx,
+        promptTokens: slot.n_prompt_tokens ?? slot.n_past,
+        decodedTokens: slot.next_token?.n_decoded
+    }))
+}
+
+// Report server health together with idle and busy slots
+export async function getServerStatus(server: LlamaCppTarget, apiKey?: string): Promise<LlamaCppServerStatus> {
+    const [health, slots] = await Promise.all([
+        fetchLlamaCppHealth(server, apiKey),
+        fetchLlamaCppSlots(server, apiKey)
+    ])
+
+    const slotStatuses = slots ? summarizeSlots(slots) : []
+    const busySlots = slotStatuses.filter(slot => slot.busy).length
+
+    return {
+        health: health.status,
+        slotsAvailable: slots !== null,
+        totalSlots: slotStatuses.length,
+        idleSlots: slotStatuses.length - busySlots,
+        busySlots,
+        slots: slotStatuses
+    }
+}
@@ -1,25 +1,65 @@
-import {ModelStatusCache} from '../cache/model-status-cache'
-import {ToastNotifier} from '../ui/toast-notifier'
-import {categorizeError, findSimilarModels, generateAutoFixSuggestions, retryWithBackoff} from '../utils'
+import {
+    applyReasoningProfile,
+    applySamplingProfile,
+    categorizeError,
+    findSimilarModels,
+    formatPerformanceHint,
+    generateAutoFixSuggestions,
+    isServerUnreachable,
+    loadGrammarFields,
+    resolveGrammarProfile,
+    resolveModelLimit,
+    resolveReasoningProfile,
+    resolveSamplingProfile,
+    retryWithBackoff
+} from '../utils'
 import {getLoadedModels} from './get-loaded-models'
-import {normalizeBaseURL} from '../utils/llama-cpp-api'
+import {loadModelOnDemand} from './load-model-on-demand'
+import {checkPromptBudget} from '../monitoring/prompt-budget'
+import {SERVER_STATUS_TTL} from '../cache/server-status-cache'
+import {fetchLlamaCppProps, LlamaCppError, normalizeBaseURL, resolveApiKey} from '../utils/llama-cpp-api'
+import type {PluginContext} from './plugin-context'
+import type {PromptBudget} from '../types'
 import {isLlamaCppProvider, isPluginHookInput, isValidModel, safeAsyncOperation} from '../utils/validation'
 
-const modelStatusCache = new ModelStatusCache()
+// OpenCode's internal agents that only generate text; every other agent works through tools
+const TEXT_ONLY_AGENTS = new Set(['title', 'summary', 'compaction'])
+
+// Whether an agent needs tool calling; `toolAgents` in the provider options narrows it to a list
+function agentNeedsTools(agent: unknown, toolAgents: unknown): boolean {
+    if (typeof agent !== 'string') {
+        return false
+    }
+    return Array.isArray(toolAgents) ? toolAgents.includes(agent) : !TEXT_ONLY_AGENTS.has(agent)
+}
+
+export function createChatParamsHook(context: PluginContext) {
+    const {
+        circuitBreaker,
+        clients,
+        logger,
+        loraVariants,
+        metricsStore,
+        modelStatusCache,
+        promptTracker,
+        serverStatusCache,
+        toastNotifier
+    } = context
+    // Session/model pairs already warned about missing tool support, so the warning shows once per session
+    const toolWarnings = new Set<string>()
 
-export function createChatParamsHook(toastNotifier: ToastNotifier) {
     return async (input: any, output: any) => {
         // Validate input
         if (!isPluginHookInput(input)) {
-            console.error("[opencode-llama-cpp] Invalid chat.params input")
+            logger.error("Invalid chat.params input")
             return
         }
 
-        const {sessionID, model, provider} = input // agent and message not used
+        const {sessionID, agent, model: requestedModel, provider} = input // message not used
 
         // Validate required fields
-        if (!isValidModel(model)) {
-            console.error("[opencode-llama-cpp] Invalid model object")
+        if (!isValidModel(requestedModel)) {
+            logger.error("Invalid model object")
             return
         }
 
@@ -28,41 +68,138 @@ export function createChatParamsHook(toastNotifier: ToastNotifier) {
             return
         }
 
+        // A LoRA variant runs on its base model, with the adapter selected for this request only
+        const loraVariant = loraVariants.get(provider.info.id, requestedModel.id)
+        const model = loraVariant ? {...requestedModel, id: loraVariant.modelId} : requestedModel
+        if (loraVariant) {
+            output.options = {...output.options, lora: loraVariant.lora}
+        }
 
         const baseURL = normalizeBaseURL(provider.options?.baseURL || "http://127.0.0.1:1234")
+        const apiKey = resolveApiKey(provider.options?.apiKey)
+        const client = clients.get(baseURL, apiKey)
 
-        // Show loading notification
-        await safeAsyncOperation(
-            () => toastNotifier.progress(`Checking model ${model.id}...`, "Model Validation", 10),
-            undefined,
-            (error: Error) => console.warn("[opencode-llama-cpp] Failed to show progress toast:", error)
-        )
-
-        // Use retry logic for model validation
-        const validationResult = await retryWithBackoff(
-            async () => {
-                const loadedModels = await getLoadedModels(baseURL)
-                const isModelLoaded = loadedModels.includes(model.id)
-
-                if (!isModelLoaded) {
-                    throw new Error(`Model '${model.id}' not loaded`)
-                }
+        // Apply per-model and per-agent sampling defaults from the provider config
+        const samplingProfile = resolveSamplingProfile(provider.options?.sampling, model.id, agent)
+        if (samplingProfile) {
+            applySamplingProfile(output, samplingProfile)
+        }
+
+        // Choose the reasoning format and budget per model, and switch thinking on or off per agent
+        const reasoningProfile = resolveReasoningProfile(provider.options?.reasoning, model.id, agent)
+        if (reasoningProfile) {
+            applyReasoningProfile(output, reasoningProfile)
+        }
+
+        // Constrain output with the agent's grammar or JSON schema profile
+        const grammarProfile = resolveGrammarProfile(provider.options?.grammars, agent)
+        if (grammarProfile) {
+            const grammarFields = await safeAsyncOperation(
+                () => loadGrammarFields(grammarProfile.profile),
+                undefined,
+                (error: Error) => logger.warn("Failed to load grammar profile", {
+                    profile: grammarProfile.name,
+                    error: error.message
+                })
+            )
+            if (grammarFields.data) {
+                output.options = {...output.options, ...grammarFields.data}
+            }
+        }
 
-                return loadedModels
-            },
-            2, // Max 2 retries for model validation
-            500 // 500ms base delay
-        )
+        // Tool-driven agents can't work with a model whose template can't call tools (e.g. no --jinja)
+        const toolWarningKey = `${sessionID}:${requestedModel.id}`
+        if (requestedModel.capabilities?.toolcall === false && agentNeedsTools(agent, provider.options?.toolAgents) &&
+            !toolWarnings.has(toolWarningKey)) {
+            if (toolWarnings.size >= 200) {
+                toolWarnings.clear() // Prevent memory leaks
+            }
+            toolWarnings.add(toolWarningKey)
+            await safeAsyncOperation(
+                () => toastNotifier.warning(
+                    `Agent '${agent}' relies on tool calls, but '${model.id}' can't make them. Start llama-server with --jinja and a tool-capable chat template, or pick another model.`,
+                    "No Tool Calling"
+                ),
+                undefined,
+                (error: Error) => logger.warn("Failed to show tool warning toast:", error)
+            )
+        }
+
+        // While the server is offline its circuit is open: fail fast instead of retrying on every message
+        const circuitOpen = !circuitBreaker.tryAcquire(baseURL)
+        let validationResult: { success: boolean; result?: string[]; error?: string; cause?: unknown }
+        if (circuitOpen) {
+            validationResult = {success: false, error: `llama.cpp at ${baseURL} is offline (circuit open)`}
+        } else {
+            // Show loading notification
+            await safeAsyncOperation(
+                () => toastNotifier.progress(`Checking model ${model.id}...`, "Model Validation", 10),
+                undefined,
+                (error: Error) => logger.warn("Failed to show progress toast:", error)
+            )
+
+            // Use retry logic for model validation
+            validationResult = await retryWithBackoff(
+                async () => {
+                    const loadedModels = await getLoadedModels(modelStatusCache, client)
+                    const isModelLoaded = loadedModels.includes(model.id)
+
+                    if (!isModelLoaded) {
+                        throw new Error(`Model '${model.id}' not loaded`)
+                    }
+
+                    return loadedModels
+                },
+                2, // Max 2 retries for model validation
+                500, // 500ms base delay
+                logger,
+                // The client already retried its own request; an answer like 401 won't change on another attempt
+                error => !(error instanceof LlamaCppError)
+            )
+        }
+
+        // In router mode the server can load the requested model on demand
+        if (!validationResult.success && !circuitOpen && provider.options?.autoLoad === true) {
+            try {
+                const loadedModels = await loadModelOnDemand(context, baseURL, model.id, {
+                    apiKey,
+                    pollInterval: provider.options?.loadPollInterval,
+                    loadingTimeout: provider.options?.loadTimeout
+                })
+                validationResult = loadedModels.includes(model.id)
+                    ? {success: true, result: loadedModels}
+                    : {success: false, error: `Model '${model.id}' not loaded`}
+            } catch (error) {
+                validationResult = {
+                    success: false,
+                    error: error instanceof Error ? error.message : String(error),
+                    cause: error
+                }
+            }
+        }
 
         if (!validationResult.success || !validationResult.result) {
-            // Categorize error and provide smart suggestions
-            const errorCategory = categorizeError(validationResult.error || "Validation operation failed", {
+            // Categorize error and provide smart suggestions; a LlamaCppError carries its kind and HTTP status
+            const errorCategory = categorizeError(validationResult.cause ?? validationResult.error ?? "Validation operation failed", {
                 baseURL,
                 modelId: model.id
             })
             const autoFixSuggestions = generateAutoFixSuggestions(errorCategory)
+            // A server that times out (hung, or a LAN that went down) is as unreachable as one refusing connections;
+            // a model that failed to load or a 4xx/5xx answer still came from a server that is up
+            const serverOffline = circuitOpen || isServerUnreachable(validationResult.cause)
+
+            // An unreachable server opens its circuit, any other failure still proves the server answers
+            let outageStarted = false
+            if (!circuitOpen) {
+                if (serverOffline) {
+                    outageStarted = circuitBreaker.recordFailure(baseURL)
+                } else {
+                    circuitBreaker.recordSuccess(baseURL)
+                }
+            }
 
-            console.warn("[opencode-llama-cpp] Model validation failed", {
+            logger[circuitOpen ? 'debug' : 'warn']("Model validation failed", {
                 sessionID,
                 model: model.id,
                 error: validationResult.error,
@@ -73,21 +210,31 @@ export function createChatParamsHook(toastNotifier: ToastNotifier) {
 
             // Get available models for similarity matching
             let availableModels: string[] = []
-            try {
-                availableModels = await getLoadedModels(baseURL)
-            } catch (e) {
-                console.warn("[opencode-llama-cpp] Failed to get available models for suggestions", {error: e})
+            if (!serverOffline) {
+                try {
+                    availableModels = await getLoadedModels(modelStatusCache, client)
+                } catch (e) {
+                    logger.warn("Failed to get available models for suggestions", {error: e})
+                }
             }
 
             // Use enhanced similarity matching
             const similarModels = findSimilarModels(model.id, availableModels)
 
-            // Show error toast
-            await toastNotifier.error(
-                `Model '${model.id}' not ready: ${errorCategory.message}`,
-                "Model Validation Failed",
-                8000
-            )
+            // Show error toast; an offline server gets one toast per outage instead of one per message
+            if (outageStarted) {
+                await toastNotifier.error(
+                    `llama.cpp at ${baseURL} is offline or not responding. Requests fail fast until it answers again.`,
+                    "Server Offline",
+                    8000
+                )
+            } else if (!serverOffline) {
+                await toastNotifier.error(
+                    `Model '${model.id}' not ready: ${errorCategory.message}`,
+                    "Model Validation Failed",
+                    8000
+                )
+            }
 
             // Provide comprehensive error response
             if (!output.options) {
@@ -122,7 +269,8 @@ export function createChatParamsHook(toastNotifier: ToastNotifier) {
                     model: item.model,
                     similarity: Math.round(item.similarity * 100),
                     reason: item.reason
-                }))
+                })),
+                circuit: circuitBreaker.getStatus(baseURL)
             }
         } else {
             const cacheStats = modelStatusCache.getStats()
@@ -131,9 +279,59 @@ export function createChatParamsHook(toastNotifier: ToastNotifier) {
 
             const loadedModels = validationResult.result || []
 
+            // The server answered, so an outage is over
+            if (circuitBreaker.recordSuccess(baseURL)) {
+                await toastNotifier.info(`llama.cpp at ${baseURL} is back online`, "Server Online")
+            }
+
             // Show success toast
             await toastNotifier.success(`Model '${model.id}' is ready to use`, "Model Validated")
 
+            // Count the prompt with the real tokenizer, to warn before it overflows the context
+            const measurePrompt = async (): Promise<PromptBudget | undefined> => {
+                if (!sessionID || !promptTracker.getPromptParts(sessionID)) {
+                    return undefined
+                }
+                const contextSize = model.limit?.context
+                    || resolveModelLimit(undefined, await fetchLlamaCppProps(client))?.context
+                return contextSize
+                    ? await checkPromptBudget(client, promptTracker, sessionID, contextSize, {
+                        model: model.id,
+                        tools: requestedModel.capabilities?.toolcall !== false
+                    })
+                    : undefined
+            }
+
+            // Slots, throughput and the prompt size don't depend on each other, so they are asked side by side
+            const [serverStatus, metrics, promptBudget] = await Promise.all([
+                serverStatusCache.get(baseURL, apiKey),
+                metricsStore.scrape(baseURL, apiKey, SERVER_STATUS_TTL),
+                measurePrompt()
+            ])
+
+            // Warn when every slot is busy, the request will queue behind other users
+            if (serverStatus.slotsAvailable && serverStatus.totalSlots > 0 && serverStatus.idleSlots === 0) {
+                await toastNotifier.warning(
+                    `All ${serverStatus.totalSlots} llama.cpp slot(s) are busy. Your request will queue until one frees up.`,
+                    "Server Busy"
+                )
+            }
+
+            // Report real throughput when the server exposes /metrics
+            if (sessionID) {
+                metricsStore.trackSession(sessionID, baseURL, apiKey)
+            }
+            const throughput = metrics ? metricsStore.getThroughput(baseURL) : undefined
+            const throughputHint = throughput ? formatPerformanceHint(throughput, metrics ?? undefined) : undefined
+
+            // Warn before the prompt overflows the context
+            if (promptBudget?.exceeded) {
+                await toastNotifier.warning(
+                    `Prompt is about ${promptBudget.tokens + promptBudget.reserved} tokens with the chat template and tools, but '${model.id}' has a ${promptBudget.contextSize}-token context. The request will be truncated or rejected.`,
+                    "Context Overflow"
+                )
+            }
+
             if (!output.options) {
                 output.options = {}
             }
@@ -145,13 +343,21 @@ export function createChatParamsHook(toastNotifier: ToastNotifier) {
                 cacheInfo: {
                     age: cacheAge,
                     valid: modelStatusCache.isValid(baseURL),
-                    totalCacheEntries: cacheStats.size
+                    totalCacheEntries: cacheStats.size,
+                    circuits: cacheStats.circuits
                 },
-                performanceHint: loadedModels.length > 1
+                performanceHint: throughputHint ?? (loadedModels.length > 1
                     ? `Note: ${loadedModels.length} models loaded. Consider unloading unused models for better performance.`
                     : cacheAge > 20000 // Cache is getting old
                         ? `Cache is ${Math.round(cacheAge / 1000)}s old. Consider refreshing if model status seems outdated.`
-                        : undefined
+                        : undefined),
+                slots: serverStatus.slotsAvailable ? {
+                    total: serverStatus.totalSlots,
+                    idle: serverStatus.idleSlots,
+                    busy: serverStatus.busySlots
+                } : undefined,
+                promptBudget,
+                circuit: circuitBreaker.getStatus(baseURL)
             }
         }
     }
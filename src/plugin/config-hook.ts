@@ -1,22 +1,28 @@
-import {ToastNotifier} from '../ui/toast-notifier'
 import {validateConfig} from '../utils/validation'
-import {enhanceConfig} from './enhance-config'
-import type {PluginInput} from '@opencode-ai/plugin'
+import {enhanceConfig, restoreDiscoveryCache} from './enhance-config'
+import {autoDetectLlamaCppServers} from '../utils/auto-detect'
+import {getAutoDetectOptions, getLogConfig, listLlamaCppServers, registerDetectedServers} from '../utils/llama-cpp-servers'
+import type {PluginContext} from './plugin-context'
+
+export function createConfigHook(context: PluginContext) {
+    const {logger, toastNotifier} = context
 
-export function createConfigHook(client: PluginInput['client'], toastNotifier: ToastNotifier) {
     return async (config: any) => {
         // Track model count for debugging
     // const initialModelCount = config?.provider?.['llama.cpp']?.models ? Object.keys(config.provider['llama.cpp'].models).length : 0
 
         // Check if config is modifiable
         if (config && (Object.isFrozen?.(config) || Object.isSealed?.(config))) {
-            console.warn("[opencode-llama-cpp] Config object is frozen/sealed - cannot modify directly")
+            logger.warn("Config object is frozen/sealed - cannot modify directly")
             return
         }
 
+        // Apply the provider's log settings before anything else is logged
+        logger.configure(getLogConfig(config))
+
         const validation = validateConfig(config)
         if (!validation.isValid) {
-            console.error("[opencode-llama-cpp] Invalid config provided:", validation.errors)
+            logger.error("Invalid config provided:", validation.errors)
             // Don't await toast - don't block startup
             toastNotifier.error("Plugin configuration is invalid", "Configuration Error").catch(() => {
             })
@@ -24,61 +30,66 @@ export function createConfigHook(client: PluginInput['client'], toastNotifier: T
         }
 
         if (validation.warnings.length > 0) {
-            console.warn("[opencode-llama-cpp] Config warnings:", validation.warnings)
+            logger.warn("Config warnings:", validation.warnings)
         }
 
-        // Ensure provider exists and wait for initial model discovery
-        // We wait with a timeout to ensure models are loaded before OpenCode reads the config
-        if (!config.provider?.['llama.cpp']) {
-            // Quick check - try default port first with timeout
+        // Ensure provider exists: probe the configured hosts/ports in parallel and only
+        // register servers that fingerprint as llama.cpp (not LM Studio, Ollama, ...)
+        if (listLlamaCppServers(config).length === 0) {
             try {
-                const response = await fetch("http://127.0.0.1:1234/v1/models", {
-                    method: "GET",
-                    signal: AbortSignal.timeout(1000), // 1 second timeout for quick check
-                })
-
-                if (response.ok) {
-                    if (!config.provider) config.provider = {}
-                    if (!config.provider['llama.cpp']) {
-                        config.provider['llama.cpp'] = {
-                            npm: "@ai-sdk/openai-compatible",
-                            name: "llama.cpp (local)",
-                            options: {
-                                baseURL: "http://127.0.0.1:1234/v1",
-                            },
-                            models: {},
-                        }
-                    }
+                const detected = await autoDetectLlamaCppServers(getAutoDetectOptions(config))
+                registerDetectedServers(config, detected)
+                if (detected.length > 0) {
+                    logger.info("Auto-detected llama.cpp", {
+                        servers: detected.map(({baseURL, fingerprint}) => ({baseURL, fingerprint}))
+                    })
                 }
             } catch {
-                // Ignore - will be handled by full enhanceConfig
+                // Ignore - the plugin stays idle until a server is configured
             }
         }
 
+        // Models from the last run are available immediately; the live discovery then only revalidates them
+        const restoredCount = restoreDiscoveryCache(config, context)
+
         // Wait for initial model discovery with timeout (max 5 seconds)
         // This ensures models are available when OpenCode reads the config
     // We use Promise.race to avoid blocking too long, but we check if models were added
-    const discoveryPromise = enhanceConfig(config, client, toastNotifier)
+    const discoveryPromise = enhanceConfig(config, context)
         const timeoutMs = 5000 // 5 second timeout
 
-        try {
-            await Promise.race([
-                discoveryPromise,
-                new Promise<void>((resolve) => {
-                    setTimeout(() => resolve(), timeoutMs)
-                })
-            ])
-        } catch (error) {
-            console.error("[opencode-llama-cpp] Config enhancement failed:", error)
-            console.error("[opencode-llama-cpp:DEBUG] Error stack:", error instanceof Error ? error.stack : String(error))
+        if (restoredCount > 0) {
+            logger.info(`Restored ${restoredCount} cached models, revalidating in the background`)
+            discoveryPromise.catch(error => {
+                logger.error("Background revalidation failed:", error)
+            })
+        } else {
+            try {
+                await Promise.race([
+                    discoveryPromise,
+                    new Promise<void>((resolve) => {
+                        setTimeout(() => resolve(), timeoutMs)
+                    })
+                ])
+            } catch (error) {
+                logger.error("Config enhancement failed:", error)
+                logger.debug("Error stack:", error instanceof Error ? error.stack : String(error))
+            }
         }
 
-        const finalModelCount = config.provider?.['llama.cpp']?.models ? Object.keys(config.provider['llama.cpp'].models).length : 0
+        // Re-discovery on later session events works on this config; each server's discovery sets its baseline
+        context.config = config
+
+        const servers = listLlamaCppServers(config)
+        const finalModelCount = servers.reduce((count, {providerID}) => {
+            const models = config.provider[providerID]?.models
+            return count + (models ? Object.keys(models).length : 0)
+        }, 0)
 
-        if (finalModelCount === 0 && config.provider?.['llama.cpp']) {
-            console.warn("[opencode-llama-cpp] No models discovered - llama.cpp might be offline")
+        if (finalModelCount === 0 && servers.length > 0) {
+            logger.warn("No models discovered - llama.cpp might be offline")
         } else if (finalModelCount > 0) {
-            console.log(`[opencode-llama-cpp] Loaded ${finalModelCount} models`)
+            logger.info(`Loaded ${finalModelCount} models from ${servers.length} server(s)`)
         }
     }
 }
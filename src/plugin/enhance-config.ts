@@ -1,155 +1,382 @@
+import {createHash} from 'crypto'
 import {ModelStatusCache} from '../cache/model-status-cache'
-import {ToastNotifier} from '../ui/toast-notifier'
-import {categorizeModel, extractModelOwner, formatModelName} from '../utils'
-import {autoDetectLlamaCpp, checkLlamaCppHealth, discoverLlamaCppModels, normalizeBaseURL} from '../utils/llama-cpp-api'
-import type {PluginInput} from '@opencode-ai/plugin'
-import type {LlamaCppModel} from '../types'
-
-const modelStatusCache = new ModelStatusCache()
-
-export async function enhanceConfig(
-    config: any,
-    _client: PluginInput['client'], // client not used but kept for interface compatibility
-    toastNotifier: ToastNotifier
-): Promise<void> {
-    try {
-        let llamaCppProvider = config.provider?.['llama.cpp']
-        let baseURL: string
-
-        // If llama.cpp provider exists, use its baseURL
-        if (llamaCppProvider) {
-            baseURL = normalizeBaseURL(llamaCppProvider.options?.baseURL || "http://127.0.0.1:1234")
-        } else {
-            // Try to auto-detect llama.cpp
-            const detectedURL = await autoDetectLlamaCpp()
-            if (!detectedURL) {
-                return // No llama.cpp found
-            }
+import {
+    buildLoraVariants,
+    extractModelOwner,
+    formatModelName,
+    resolveModelCapabilities,
+    resolveModelLimit,
+    resolveModelModalities
+} from '../utils'
+import {
+    checkLlamaCppHealth,
+    discoverLlamaCppModels,
+    detectFimSupport,
+    fetchLlamaCppLoraAdapters,
+    fetchLlamaCppProps,
+    getEmbeddingDimension,
+    probeLlamaCppToolCalling,
+    resolveClientConfig
+} from '../utils/llama-cpp-api'
+import type {LlamaCppClient} from '../utils/llama-cpp-api'
+import {expandLlamaCppServers, listLlamaCppServers, registerDetectedServers} from '../utils/llama-cpp-servers'
+import type {LlamaCppServer} from '../utils/llama-cpp-servers'
+import type {PluginContext} from './plugin-context'
+import type {LlamaCppModel, LlamaCppProps, ModelCapabilities, ModelProbeResult, ModelType} from '../types'
 
-            // Auto-create llama.cpp provider if detected
-            baseURL = detectedURL
-            if (!config.provider) {
-                config.provider = {}
-            }
-            config.provider['llama.cpp'] = {
-                npm: "@ai-sdk/openai-compatible",
-                name: "llama.cpp (local)",
-                options: {
-                    baseURL: `${baseURL}/v1`,
-                },
-                models: {},
+// A model whose capabilities still need a probe request, run once the models are registered
+interface ProbeTarget {
+    model: LlamaCppModel
+    type: ModelType
+    // Model to name in the probe requests; only router-mode servers need one
+    routedModelId?: string
+    // Whether the chat template already settled tool calling
+    toolCallKnown: boolean
+    fingerprint: string
+}
+
+// Restore the models discovered on the last run from the on-disk cache, before any server is contacted
+// Servers seen recently are registered again when nothing is configured or detected, so a llama-server
+// that starts after OpenCode still has its models listed. Returns the number of restored models.
+export function restoreDiscoveryCache(config: any, context: PluginContext): number {
+    const {loraVariants, modelStatusCache} = context
+    const persisted = modelStatusCache.loadPersisted()
+    if (persisted.size === 0) {
+        return 0
+    }
+
+    expandLlamaCppServers(config)
+    if (listLlamaCppServers(config).length === 0) {
+        registerDetectedServers(config, [...persisted.keys()].map(baseURL => ({baseURL})))
+    }
+
+    let restored = 0
+    for (const {providerID, baseURL} of listLlamaCppServers(config)) {
+        const cached = persisted.get(baseURL)
+        const provider = config.provider[providerID]
+        if (!cached || !provider) {
+            continue
+        }
+
+        const models = provider.models || {}
+        for (const [modelKey, modelConfig] of Object.entries(cached.modelConfigs)) {
+            if (!models[modelKey]) {
+                models[modelKey] = modelConfig
+                restored++
             }
-            llamaCppProvider = config.provider['llama.cpp']
         }
+        provider.models = models
+        loraVariants.register(providerID, models)
+    }
+    return restored
+}
 
-        // Check health first
-        const isHealthy = await checkLlamaCppHealth(baseURL)
-        if (!isHealthy) {
-            console.warn("[opencode-llama-cpp] llama.cpp appears to be offline", {baseURL})
+export async function enhanceConfig(config: any, context: PluginContext): Promise<void> {
+    const {logger, toastNotifier} = context
+    try {
+        expandLlamaCppServers(config)
+        // Auto-detected servers were registered by the config hook; nothing to enhance without one
+        const servers = listLlamaCppServers(config)
+        if (servers.length === 0) {
             return
         }
 
-        // Try to discover models from llama.cpp API
-        let models: LlamaCppModel[]
+        // Every request to a server uses its provider's timeouts, headers and retries
+        for (const {providerID, baseURL} of servers) {
+            context.clients.configure(baseURL, resolveClientConfig(config.provider[providerID]?.options))
+        }
+
+        // Servers are independent, so discover them side by side
+        await Promise.all(servers.map(server => enhanceServer(config, server, context)))
+    } catch (error) {
+        logger.error("Unexpected error in enhanceConfig:", error)
+        toastNotifier.warning("Plugin configuration failed", "Configuration Error").catch(() => {
+        })
+    }
+}
+
+// List the model IDs a server offers, served from the discovery cache unless forced
+export async function discoverModelIds(
+    modelStatusCache: ModelStatusCache,
+    client: LlamaCppClient,
+    force = false
+): Promise<string[]> {
+    const fetchFn = async () => {
+        return await discoverLlamaCppModels(client).then(models => models.map(m => m.id))
+    }
+    return force
+        ? await modelStatusCache.forceRefresh(client.baseURL, fetchFn)
+        : await modelStatusCache.getModels(client.baseURL, fetchFn)
+}
+
+// Scales to offer for every adapter, from the provider's `loraScales` option (default: just 1)
+function resolveLoraScales(scales: unknown): number[] {
+    if (!Array.isArray(scales)) {
+        return [1]
+    }
+    const valid = scales.filter((scale): scale is number => typeof scale === 'number' && scale > 0)
+    return valid.length > 0 ? valid : [1]
+}
+
+// Asking about a model sends a request to it; don't make a router-mode server load an idle model just for that
+function canProbeModel(model: LlamaCppModel): boolean {
+    return !model.status || model.status.value === 'loaded'
+}
+
+// Probe results stay valid while the server build, model file, chat template and launch arguments stay the same
+function getProbeFingerprint(model: LlamaCppModel, props: LlamaCppProps | null): string {
+    const inputs = [
+        props?.build_info,
+        props?.model_path,
+        props?.chat_template,
+        props?.chat_template_caps,
+        props?.default_generation_settings,
+        model.meta,
+        model.status?.args
+    ]
+    return createHash('sha256').update(JSON.stringify(inputs)).digest('hex').slice(0, 16)
+}
+
+// Whether a probe can still find out something the server metadata and earlier probes didn't
+function needsProbing(type: ModelType, capabilities: ModelCapabilities, probes?: ModelProbeResult): boolean {
+    if (type === 'embedding') {
+        return probes?.embeddingDimension === undefined
+    }
+    return probes?.fim === undefined || (capabilities.toolCall === undefined && probes?.toolCall === undefined)
+}
+
+function applyProbeResult(modelConfig: any, type: ModelType, probes: ModelProbeResult): void {
+    if (type === 'embedding') {
+        if (probes.embeddingDimension) {
+            modelConfig.embeddingDimension = probes.embeddingDimension
+        }
+        return
+    }
+    // Tag code models that support /infill so completion tools can find them
+    if (probes.fim) {
+        modelConfig.fim = true
+    }
+    if (typeof probes.toolCall === 'boolean') {
+        modelConfig.tool_call = probes.toolCall
+    }
+}
+
+// Embedding size, FIM support and (when the template can't tell) tool calling each take a request to the model
+async function runProbes(client: LlamaCppClient, target: ProbeTarget): Promise<Omit<ModelProbeResult, 'fingerprint'>> {
+    const {model, type, routedModelId, toolCallKnown} = target
+    if (type === 'embedding') {
+        const embeddingDimension = await getEmbeddingDimension(client, model.id)
+        return embeddingDimension ? {embeddingDimension} : {}
+    }
+
+    const fim = await detectFimSupport(client, routedModelId)
+    // OpenCode agents need tool calling; confirm it with a real request
+    const toolCall = toolCallKnown ? null : await probeLlamaCppToolCalling(client, model.id)
+    return {fim, ...(typeof toolCall === 'boolean' ? {toolCall} : {})}
+}
+
+// Probe one model at a time, then patch the results into the registered entries of the model (LoRA variants
+// included) and into the discovery cache, so the next start has them right away
+async function probeModels(client: LlamaCppClient, targets: ProbeTarget[], context: PluginContext): Promise<void> {
+    const {baseURL} = client
+    const {logger, modelStatusCache} = context
+    for (const target of targets) {
         try {
-            models = await discoverLlamaCppModels(baseURL)
+            const probes = await modelStatusCache.probeModel(baseURL, target.model.id, target.fingerprint,
+                () => runProbes(client, target))
+
+            // The cached configs are the objects registered in the provider, also when a later discovery replaced them
+            const modelConfigs = modelStatusCache.getModelConfigs(baseURL) || {}
+            const entries = Object.values<any>(modelConfigs).filter(modelConfig => modelConfig?.id === target.model.id)
+            for (const modelConfig of entries) {
+                applyProbeResult(modelConfig, target.type, probes)
+            }
+            if (entries.length > 0) {
+                modelStatusCache.setModelConfigs(baseURL, modelConfigs)
+            }
         } catch (error) {
-            console.warn("[opencode-llama-cpp] Model discovery failed", {
+            logger.debug("Capability probe failed", {
+                baseURL,
+                model: target.model.id,
                 error: error instanceof Error ? error.message : String(error)
             })
-            return
         }
+    }
+}
+
+// Discover models on a single server and merge them into its provider
+async function enhanceServer(config: any, server: LlamaCppServer, context: PluginContext): Promise<void> {
+    const {providerID, baseURL, apiKey} = server
+    const {clients, logger, loraVariants, modelSetTracker, modelStatusCache} = context
+    const llamaCppProvider = config.provider[providerID]
+    const client = clients.get(baseURL, apiKey)
+
+    // Check health first; an unreachable server keeps the models restored from its last discovery
+    const isHealthy = await checkLlamaCppHealth(client)
+    if (!isHealthy) {
+        logger.warn("llama.cpp appears to be offline", {baseURL})
+        modelStatusCache.recordOfflineRevalidation(baseURL)
+        modelSetTracker.setBaseline(providerID, modelStatusCache.getDiscoveredModels(baseURL) ?? [])
+        return
+    }
+
+    // Try to discover models from llama.cpp API
+    let models: LlamaCppModel[]
+    try {
+        models = await discoverLlamaCppModels(client)
+    } catch (error) {
+        logger.warn("Model discovery failed", {
+            error: error instanceof Error ? error.message : String(error)
+        })
+        modelSetTracker.setBaseline(providerID, modelStatusCache.getDiscoveredModels(baseURL) ?? [])
+        return
+    }
+    // Re-discovery reports changes against the models registered here
+    modelSetTracker.setBaseline(providerID, models.map(model => model.id))
+
+    if (models.length > 0) {
+        // Warm the shared cache, so chat.params and re-discovery don't ask the server again right away
+        modelStatusCache.setModels(baseURL, models.map(model => model.id))
+        modelStatusCache.setLoadedModels(baseURL, models.filter(model => !model.status || model.status.value === 'loaded').map(model => model.id))
 
-        if (models.length > 0) {
-            // Merge discovered models with configured models
-            const existingModels = llamaCppProvider.models || {}
-            const discoveredModels: Record<string, any> = {}
-            let chatModelsCount = 0
-            let embeddingModelsCount = 0
-
-            for (const model of models) {
-                // Use model ID as key directly for better readability, fallback to sanitized version
-                let modelKey = model.id
-                if (!/^[a-zA-Z0-9_-]+$/.test(modelKey)) {
-                    modelKey = model.id.replace(/[^a-zA-Z0-9_-]/g, "_")
+        // Merge discovered models with configured models
+        // Entries restored from the discovery cache are the cached objects themselves, so they are
+        // told apart from user-configured models by identity and rebuilt from the live server
+        const cachedConfigs = modelStatusCache.getModelConfigs(baseURL) || {}
+        const existingModels = Object.fromEntries(
+            Object.entries<any>(llamaCppProvider.models || {}).filter(([modelKey, modelConfig]) => cachedConfigs[modelKey] !== modelConfig)
+        )
+        const discoveredModels: Record<string, any> = {}
+        // Adapters are server-wide; router mode runs one server per model, so only single-model servers are asked
+        const loraAdapters = models.some(model => model.status)
+            ? null
+            : await fetchLlamaCppLoraAdapters(client)
+        const loraScales = resolveLoraScales(llamaCppProvider.options?.loraScales)
+        const probeTargets: ProbeTarget[] = []
+        let chatModelsCount = 0
+        let embeddingModelsCount = 0
+
+        for (const model of models) {
+            // Use model ID as key directly for better readability, fallback to sanitized version
+            let modelKey = model.id
+            if (!/^[a-zA-Z0-9_-]+$/.test(modelKey)) {
+                modelKey = model.id.replace(/[^a-zA-Z0-9_-]/g, "_")
+            }
+
+            // Only add if not already configured
+            if (!existingModels[modelKey] && !existingModels[model.id]) {
+                // A single-model server describes its model in /props; in router mode ask per model, but only
+                // loaded ones: /props?model= loads an idle model, so the others are described by their meta
+                const props = canProbeModel(model)
+                    ? await fetchLlamaCppProps(client, models.length > 1 ? model.id : undefined)
+                    : null
+
+                const capabilities = resolveModelCapabilities(model, props)
+                const modelType = capabilities.type
+                const owner = extractModelOwner(model.id)
+                const modelConfig: any = {
+                    id: model.id,
+                    name: formatModelName(model),
                 }
 
-                // Only add if not already configured
-                if (!existingModels[modelKey] && !existingModels[model.id]) {
-                    const modelType = categorizeModel(model.id)
-                    const owner = extractModelOwner(model.id)
-                    const modelConfig: any = {
-                        id: model.id,
-                        name: formatModelName(model),
-                    }
+                // Add owner if available
+                if (owner) {
+                    modelConfig.organizationOwner = owner
+                }
 
-                    // Add owner if available
-                    if (owner) {
-                        modelConfig.organizationOwner = owner
-                    }
+                // Advertise the real context size so OpenCode can avoid overflowing it
+                const limit = resolveModelLimit(model.meta, props)
+                if (limit) {
+                    modelConfig.limit = limit
+                }
 
-                    // Add additional metadata based on model type
-                    if (modelType === 'embedding') {
-                        embeddingModelsCount++
-                        modelConfig.modalities = {
-                            input: ["text"],
-                            output: ["embedding"]
-                        }
-                    } else if (modelType === 'chat') {
-                        chatModelsCount++
-                        modelConfig.modalities = {
-                            input: ["text", "image"],
-                            output: ["text"]
-                        }
+                // Add additional metadata based on model type
+                if (modelType === 'embedding') {
+                    embeddingModelsCount++
+                    if (model.meta?.n_embd) {
+                        modelConfig.embeddingDimension = model.meta.n_embd
                     }
-
-                    discoveredModels[modelKey] = modelConfig
+                } else if (modelType === 'chat') {
+                    chatModelsCount++
                 }
-            }
 
-            // Merge discovered models into config
-            if (Object.keys(discoveredModels).length > 0) {
-                if (!config.provider['llama.cpp']) {
-                    return
+                const modalities = resolveModelModalities(capabilities)
+                if (modalities) {
+                    modelConfig.modalities = modalities
                 }
 
-                config.provider['llama.cpp'].models = {
-                    ...existingModels,
-                    ...discoveredModels,
+                if (modelType !== 'embedding' && typeof capabilities.toolCall === 'boolean') {
+                    modelConfig.tool_call = capabilities.toolCall
                 }
 
-                // Provide helpful guidance if no chat models are available
-                if (chatModelsCount === 0 && embeddingModelsCount > 0) {
-                    console.warn("[opencode-llama-cpp] Only embedding models found. To use chat models:", {
-                        steps: [
-                            "1. Start the llama.cpp server",
-                            "2. Load a chat model",
-                            "3. Ensure the server is running"
-                        ]
+                // Probes send requests to the model, so they run after registration; an earlier run's results
+                // apply right away while the model and server are unchanged
+                const fingerprint = getProbeFingerprint(model, props)
+                const probes = modelStatusCache.getProbeResult(baseURL, model.id, fingerprint)
+                if (probes) {
+                    applyProbeResult(modelConfig, modelType, probes)
+                }
+                if (canProbeModel(model) && needsProbing(modelType, capabilities, probes)) {
+                    probeTargets.push({
+                        model,
+                        type: modelType,
+                        routedModelId: models.length > 1 ? model.id : undefined,
+                        toolCallKnown: capabilities.toolCall !== undefined,
+                        fingerprint
                     })
                 }
+
+                // Let OpenCode know the model thinks, so it can show and keep the reasoning parts
+                if (capabilities.reasoning) {
+                    modelConfig.reasoning = true
+                }
+
+                discoveredModels[modelKey] = modelConfig
+
+                // Offer each loaded LoRA adapter as a variant of the chat model
+                if (modelType !== 'embedding' && loraAdapters && loraAdapters.length > 0) {
+                    Object.assign(discoveredModels, buildLoraVariants(modelKey, modelConfig, loraAdapters, loraScales))
+                }
             }
-        } else {
-            console.warn("[opencode-llama-cpp] No models found in llama.cpp. Please:", {
-                steps: [
-                    "1. Start the llama.cpp server",
-                    "2. Load a model",
-                    "3. Ensure the server is running"
-                ]
-            })
         }
 
-    // Warm up the cache with current model status
-    try {
-      await modelStatusCache.getModels(baseURL, async () => {
-        return await discoverLlamaCppModels(baseURL).then(models => models.map(m => m.id))
-      })
-        } catch {
-            // Cache warming failed, but not critical
+        if (!config.provider[providerID]) {
+            return
         }
-    } catch (error) {
-        console.error("[opencode-llama-cpp] Unexpected error in enhanceConfig:", error)
-        toastNotifier.warning("Plugin configuration failed", "Configuration Error").catch(() => {
+
+        // Merge discovered models into config, dropping cached models the server no longer has
+        config.provider[providerID].models = {
+            ...existingModels,
+            ...discoveredModels,
+        }
+        modelStatusCache.setModelConfigs(baseURL, discoveredModels)
+        loraVariants.register(providerID, config.provider[providerID].models)
+
+        // Not awaited: the config hook only waits for the models to be registered
+        if (probeTargets.length > 0) {
+            void probeModels(client, probeTargets, context)
+        }
+
+        if (Object.keys(discoveredModels).length > 0) {
+
+            // Provide helpful guidance if no chat models are available
+            if (chatModelsCount === 0 && embeddingModelsCount > 0) {
+                logger.warn("Only embedding models found. To use chat models:", {
+                    steps: [
+                        "1. Start the llama.cpp server",
+                        "2. Load a chat model",
+                        "3. Ensure the server is running"
+                    ]
+                })
+            }
+        }
+    } else {
+        logger.warn("No models found in llama.cpp. Please:", {
+            steps: [
+                "1. Start the llama.cpp server",
+                "2. Load a model",
+                "3. Ensure the server is running"
+            ]
         })
     }
-}
\ No newline at end of file
+}
@@ -1,18 +1,37 @@
+import {formatSessionSummary} from '../utils'
 import {validateHookInput} from '../utils/validation'
+import {rediscoverModels} from './rediscover-models'
+import type {PluginContext} from './plugin-context'
+
+export function createEventHook(context: PluginContext) {
+    const {logger, metricsStore, toastNotifier} = context
 
-export function createEventHook() {
     return async ({event}: { event: any }) => {
         // Validate event input
         const validation = validateHookInput('event', {event})
         if (!validation.isValid) {
-            console.error("[opencode-llama-cpp] Invalid event input:", validation.errors)
+            logger.error("Invalid event input:", validation.errors)
             return
         }
 
-        // Monitor for session events to provide llama.cpp status
+        // Pick up models loaded or removed since startup; a new session always checks the server,
+        // updates are frequent so they go through the discovery cache
         if (event.type === "session.created" || event.type === "session.updated") {
-            // Could add health check monitoring here in the future
+            try {
+                await rediscoverModels(context, event.type === "session.created")
+            } catch (error) {
+                logger.warn("Model re-discovery failed", {
+                    error: error instanceof Error ? error.message : String(error)
+                })
+            }
+        }
+
+        // Summarize server performance once a llama.cpp session finishes its work
+        if (event.type === "session.idle" && typeof event.properties?.sessionID === 'string') {
+            const summary = await metricsStore.summarizeSession(event.properties.sessionID)
+            if (summary && summary.predictedTokens > 0) {
+                await toastNotifier.info(formatSessionSummary(summary), "llama.cpp Session Summary", 6000)
+            }
         }
     }
 }
-
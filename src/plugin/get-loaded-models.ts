@@ -1,11 +1,22 @@
 import {ModelStatusCache} from '../cache/model-status-cache'
 import {fetchLlamaCppModelsDirect} from '../utils/llama-cpp-api'
+import type {LlamaCppClient} from '../utils/llama-cpp-api'
 
-const modelStatusCache = new ModelStatusCache()
-
-export function getLoadedModels(baseURL: string = "http://127.0.0.1:1234"): Promise<string[]> {
-    return modelStatusCache.getModels(baseURL, async () => {
-        return await fetchLlamaCppModelsDirect(baseURL)
+export function getLoadedModels(
+    modelStatusCache: ModelStatusCache,
+    client: LlamaCppClient
+): Promise<string[]> {
+    return modelStatusCache.getLoadedModels(client.baseURL, async () => {
+        return await fetchLlamaCppModelsDirect(client)
     })
 }
 
+// Bypass the cache after the server's model set changed (e.g. after loading a model)
+export function refreshLoadedModels(
+    modelStatusCache: ModelStatusCache,
+    client: LlamaCppClient
+): Promise<string[]> {
+    return modelStatusCache.refreshLoadedModels(client.baseURL, async () => {
+        return await fetchLlamaCppModelsDirect(client)
+    })
+}
@@ -1,29 +1,37 @@
 import type {Plugin, PluginInput} from "@opencode-ai/plugin"
-import {ToastNotifier} from '../ui/toast-notifier'
+import {Logger} from '../utils/logger'
 import {createConfigHook} from './config-hook'
 import {createEventHook} from './event-hook'
 import {createChatParamsHook} from './chat-params-hook'
+import {createMessagesTransformHook} from './messages-transform-hook'
+import {createSystemTransformHook} from './system-transform-hook'
+import {createPluginContext} from './plugin-context'
 
 /**
  * llama.cpp Plugin - Enhanced Modular Version
  *
  * Features:
  * - Auto-detection of running llama.cpp instance
- * - Dynamic model discovery from llama.cpp API
+ * - Dynamic model discovery from llama.cpp API, re-checked as sessions start
  * - Real-time model validation with smart error handling
  * - Comprehensive caching system with 80%+ API call reduction
  * - Model loading state monitoring with progress tracking
+ * - Prometheus metrics scraping with session performance summaries
+ * - Tokenizer-backed prompt budget checks against the server context size
  * - Toast notifications for better UX
+ * - Leveled console, JSON and file logging
  * - Intelligent model suggestions and error recovery
  */
 export const LlamaCppPlugin: Plugin = async (input: PluginInput) => {
-    console.log("[opencode-llama-cpp] llama.cpp plugin initialized")
+    // Configured from the environment for now; the config hook applies the provider's `log` option
+    const logger = new Logger()
+    logger.info("llama.cpp plugin initialized")
 
     const {client} = input
 
     // Validate client
     if (!client || typeof client !== 'object') {
-        console.error("[opencode-llama-cpp] Invalid client provided to plugin")
+        logger.error("Invalid client provided to plugin")
         return {
             config: async () => {
             },
@@ -34,12 +42,15 @@ export const LlamaCppPlugin: Plugin = async (input: PluginInput) => {
         }
     }
 
-    const toastNotifier = new ToastNotifier(client)
+    // One cache, loading monitor and metrics store per plugin instance, shared by every hook
+    const context = createPluginContext(client, logger)
 
     return {
-        config: createConfigHook(client, toastNotifier),
-        event: createEventHook(),
-        "chat.params": createChatParamsHook(toastNotifier),
+        config: createConfigHook(context),
+        event: createEventHook(context),
+        "chat.params": createChatParamsHook(context),
+        "experimental.chat.messages.transform": createMessagesTransformHook(context),
+        "experimental.chat.system.transform": createSystemTransformHook(context),
     }
 }
 
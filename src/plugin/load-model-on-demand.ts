@@ -0,0 +1,55 @@
+import {loadLlamaCppModel, ModelLoadError} from '../utils/llama-cpp-api'
+import {refreshLoadedModels} from './get-loaded-models'
+import type {PluginContext} from './plugin-context'
+import type {ModelLoadingMonitorOptions} from '../types'
+
+// Load a model through a router-mode llama-server and wait until it is ready
+// Returns the loaded models on success, or throws with the reason the load failed: a ModelLoadError when the
+// server accepted the load but the model didn't become ready
+export async function loadModelOnDemand(
+    context: PluginContext,
+    baseURL: string,
+    modelId: string,
+    options: ModelLoadingMonitorOptions = {}
+): Promise<string[]> {
+    const {clients, loadingMonitor, toastNotifier, modelStatusCache} = context
+    const client = clients.get(baseURL, options.apiKey)
+
+    try {
+        await loadLlamaCppModel(client, modelId)
+    } catch (error) {
+        throw new Error(`Failed to load model '${modelId}': ${error instanceof Error ? error.message : String(error)}`, {cause: error})
+    }
+
+    const unsubscribe = loadingMonitor.onStateChange(event => {
+        if (event.modelId === modelId && event.baseURL === baseURL) {
+            toastNotifier.loadingState(event).catch(() => {
+            })
+        }
+    })
+
+    try {
+        loadingMonitor.startMonitoring(modelId, baseURL, options)
+
+        // Only toast when progress moves to the next 10% step to avoid flooding the UI
+        let lastStep = 0
+        const finalState = await loadingMonitor.waitForLoad(modelId, baseURL, state => {
+            const progress = Math.round(state.progress ?? 0)
+            const step = Math.floor(progress / 10)
+            if (step !== lastStep) {
+                lastStep = step
+                const eta = state.eta !== undefined ? `, about ${Math.ceil(state.eta / 1000)}s left` : ''
+                toastNotifier.progress(`Loading model '${modelId}'${eta}`, "Model Loading", progress).catch(() => {
+                })
+            }
+        })
+
+        if (finalState.status !== 'loaded') {
+            throw new ModelLoadError(finalState.error || `Model '${modelId}' did not finish loading`, modelId)
+        }
+    } finally {
+        unsubscribe()
+    }
+
+    return await refreshLoadedModels(modelStatusCache, client)
+}
@@ -0,0 +1,11 @@
+import type {PluginContext} from './plugin-context'
+
+export function createMessagesTransformHook({promptTracker}: PluginContext) {
+    return async (_input: any, output: any) => {
+        // Only observe the conversation, messages are passed through unchanged
+        if (!output || !Array.isArray(output.messages)) {
+            return
+        }
+        promptTracker.recordMessages(output.messages)
+    }
+}
@@ -0,0 +1,55 @@
+import {MetricsStore} from '../cache/metrics-store'
+import {ModelSetTracker} from '../cache/model-set-tracker'
+import {ModelStatusCache} from '../cache/model-status-cache'
+import {ServerStatusCache} from '../cache/server-status-cache'
+import {CircuitBreaker} from '../monitoring/circuit-breaker'
+import {ModelLoadingMonitor} from '../monitoring/loading-monitor'
+import {PromptTracker} from '../monitoring/prompt-budget'
+import {ToastNotifier} from '../ui/toast-notifier'
+import {LlamaCppClients} from '../utils/llama-cpp-client'
+import {Logger} from '../utils/logger'
+import {LoraVariants} from '../utils/lora-adapters'
+import type {PluginInput} from '@opencode-ai/plugin'
+
+// State shared by every hook of one plugin instance
+// Created once in LlamaCppPlugin, so each instance (and each test) starts from its own empty caches
+export interface PluginContext {
+    client: PluginInput['client']
+    logger: Logger
+    toastNotifier: ToastNotifier
+    // Timeouts, headers and retries per server, registered from the provider config
+    clients: LlamaCppClients
+    // Model lists per server: warmed by discovery, read by chat.params and refreshed by the loading monitor
+    modelStatusCache: ModelStatusCache
+    loadingMonitor: ModelLoadingMonitor
+    // Offline servers per baseURL, so requests fail fast during an outage
+    circuitBreaker: CircuitBreaker
+    metricsStore: MetricsStore
+    // Health and slots per server for a few seconds, so chat.params doesn't ask before every LLM step
+    serverStatusCache: ServerStatusCache
+    promptTracker: PromptTracker
+    modelSetTracker: ModelSetTracker
+    loraVariants: LoraVariants
+    // The config handed to the config hook, with discovered models merged in; undefined until the hook ran
+    config?: any
+}
+
+export function createPluginContext(client: PluginInput['client'], logger: Logger = new Logger()): PluginContext {
+    const circuitBreaker = new CircuitBreaker()
+    const clients = new LlamaCppClients(logger)
+    const modelStatusCache = new ModelStatusCache({persistent: true, logger, circuitBreaker})
+    return {
+        client,
+        logger,
+        toastNotifier: new ToastNotifier(client, logger),
+        clients,
+        modelStatusCache,
+        loadingMonitor: new ModelLoadingMonitor(modelStatusCache, {}, logger, clients),
+        circuitBreaker,
+        metricsStore: new MetricsStore(clients),
+        serverStatusCache: new ServerStatusCache(clients),
+        promptTracker: new PromptTracker(),
+        modelSetTracker: new ModelSetTracker(),
+        loraVariants: new LoraVariants()
+    }
+}
@@ -0,0 +1,67 @@
+import {getServerLabel, listLlamaCppServers} from '../utils/llama-cpp-servers'
+import {discoverModelIds, enhanceConfig} from './enhance-config'
+import type {PluginContext} from './plugin-context'
+import type {ModelSetChange} from '../types'
+
+// Re-discover models on every tracked server and report models that were loaded or removed since the last look
+// Changed servers get their provider models rebuilt in place; with `refreshOnModelChange` OpenCode is asked to reload
+export async function rediscoverModels(context: PluginContext, force = false): Promise<ModelSetChange[]> {
+    const {clients, config, modelSetTracker: tracker, modelStatusCache, toastNotifier} = context
+    if (!config) {
+        return [] // Config hook has not run yet
+    }
+
+    return tracker.runExclusive(async () => {
+        const changes: ModelSetChange[] = []
+        for (const {providerID, baseURL, apiKey} of listLlamaCppServers(config)) {
+            let models: string[]
+            try {
+                models = await discoverModelIds(modelStatusCache, clients.get(baseURL, apiKey), force)
+            } catch {
+                continue // Offline servers keep their last known model set
+            }
+            const change = tracker.update(providerID, baseURL, models)
+            if (change) {
+                changes.push(change)
+            }
+        }
+
+        if (changes.length === 0) {
+            return changes
+        }
+
+        // Rebuild discovered model entries (limits, modalities) and drop the ones that are gone
+        await enhanceConfig(config, context)
+
+        for (const {baseURL, added, removed} of changes) {
+            const label = getServerLabel(baseURL)
+            if (added.length > 0) {
+                await toastNotifier.info(`New model(s) on llama.cpp ${label}: ${added.join(', ')}`, "Models Added")
+            }
+            if (removed.length > 0) {
+                await toastNotifier.warning(`Model(s) no longer available on llama.cpp ${label}: ${removed.join(', ')}`, "Models Removed")
+            }
+        }
+
+        await requestConfigRefresh(config, changes, context)
+        return changes
+    })
+}
+
+// OpenCode builds its provider list once per instance; disposing the instance makes it re-read the config
+// Opt-in, since a reload interrupts whatever OpenCode is doing at that moment
+async function requestConfigRefresh(config: any, changes: ModelSetChange[], context: PluginContext): Promise<void> {
+    const {client, logger} = context
+    const wantsRefresh = changes.some(({providerID}) => config.provider?.[providerID]?.options?.refreshOnModelChange === true)
+    if (!wantsRefresh || typeof client?.instance?.dispose !== 'function') {
+        return
+    }
+
+    try {
+        await client.instance.dispose()
+    } catch (error) {
+        logger.warn("Config refresh failed", {
+            error: error instanceof Error ? error.message : String(error)
+        })
+    }
+}
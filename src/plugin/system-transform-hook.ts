@@ -0,0 +1,11 @@
+import type {PluginContext} from './plugin-context'
+
+export function createSystemTransformHook({promptTracker}: PluginContext) {
+    return async (input: any, output: any) => {
+        // Only observe the system prompt, it is passed through unchanged
+        if (typeof input?.sessionID !== 'string' || !Array.isArray(output?.system)) {
+            return
+        }
+        promptTracker.recordSystem(input.sessionID, output.system)
+    }
+}
@@ -1,9 +1,27 @@
 // Core types for llama.cpp plugin
+export interface LlamaCppModelMeta {
+    vocab_type?: number
+    n_vocab?: number
+    n_ctx_train?: number
+    n_embd?: number
+    n_params?: number
+    size?: number
+}
+
+// Per-model status reported by llama-server in router (multi-model) mode
+export interface LlamaCppModelStatus {
+    value: 'loaded' | 'loading' | 'unloaded' | string
+    args?: string[]
+    failed?: boolean
+}
+
 export interface LlamaCppModel {
     id: string
     object: string
     created: number
     owned_by: string
+    meta?: LlamaCppModelMeta
+    status?: LlamaCppModelStatus
 }
 
 export interface LlamaCppModelsResponse {
@@ -11,8 +29,202 @@ export interface LlamaCppModelsResponse {
     data: LlamaCppModel[]
 }
 
+export interface LlamaCppEmbedOptions {
+    apiKey?: string
+    // Texts sent per request (default 32)
+    batchSize?: number
+    // llama.cpp embd_normalize: -1 none, 0 max absolute, 1 taxicab, 2 euclidean (default), >2 p-norm
+    // Setting it switches to the native /embedding endpoint
+    normalize?: number
+}
+
+export interface LlamaCppEmbeddings {
+    model?: string
+    dimension: number
+    // One vector per input text, in input order
+    vectors: number[][]
+}
+
+// Extra file context for /infill, e.g. other open files of the project
+export interface LlamaCppInfillChunk {
+    filename: string
+    text: string
+}
+
+export interface LlamaCppInfillRequest {
+    prefix: string
+    suffix: string
+    extraContext?: LlamaCppInfillChunk[]
+    model?: string
+    // Tokens to generate at most (default 128)
+    maxTokens?: number
+    // Passed through to /infill, e.g. temperature or stop
+    options?: Record<string, unknown>
+}
+
+export interface LlamaCppInfillResult {
+    content: string
+    tokensPredicted?: number
+    stoppedByLimit?: boolean
+}
+
+// Adapter loaded with --lora, as listed by /lora-adapters
+export interface LlamaCppLoraAdapter {
+    id: number
+    path: string
+    scale: number
+}
+
+// Per-request adapter selection for the `lora` request field; unlisted adapters run at scale 0
+export interface LoraSelection {
+    id: number
+    scale: number
+}
+
+export interface LoraVariant {
+    // Server model the variant runs on
+    modelId: string
+    lora: LoraSelection[]
+}
+
+// Server properties reported by llama-server's /props endpoint
+export interface LlamaCppProps {
+    n_ctx?: number
+    default_generation_settings?: {
+        n_ctx?: number
+        params?: {
+            n_predict?: number
+            [key: string]: any
+        }
+        [key: string]: any
+    }
+    total_slots?: number
+    model_path?: string
+    chat_template?: string
+    modalities?: {
+        vision?: boolean
+        audio?: boolean
+    }
+    build_info?: string
+    // Pooling of an embedding server (--embeddings --pooling ...); "none"/0 for token-level output
+    pooling_type?: string | number
+    chat_template_caps?: {
+        supports_tools?: boolean
+        supports_tool_calls?: boolean
+        supports_parallel_tool_calls?: boolean
+        [key: string]: any
+    }
+}
+
+export interface ModelLimit {
+    context: number
+    output: number
+}
+
+export type ModelModality = 'text' | 'audio' | 'image' | 'video' | 'pdf' | 'embedding'
+
+export interface ModelModalities {
+    input: ModelModality[]
+    output: ModelModality[]
+}
+
+// Sampling parameters applied to chat.params output
+// temperature/topP/topK map to OpenCode's fields, every other key (min_p, repeat_penalty, mirostat, ...)
+// is passed through to llama-server in output.options
+export interface SamplingProfile {
+    temperature?: number
+    topP?: number
+    topK?: number
+    [key: string]: unknown
+}
+
+export interface SamplingConfig {
+    // Keyed by model ID glob, e.g. "qwen3*" or "*gemma*"
+    models?: Record<string, SamplingProfile>
+    // Keyed by agent name, applied on top of the model profile
+    agents?: Record<string, SamplingProfile>
+}
+
+// Constrained output profile: inline GBNF, a path to a .gbnf file, or a JSON schema
+export interface GrammarProfile {
+    grammar?: string
+    file?: string
+    jsonSchema?: Record<string, unknown>
+}
+
+export interface GrammarConfig {
+    profiles?: Record<string, GrammarProfile>
+    // Maps agent names to profile names
+    agents?: Record<string, string>
+}
+
+// How llama-server returns thinking: "deepseek" moves it into reasoning_content, "none" leaves <think> in the text
+export type ReasoningFormat = 'auto' | 'deepseek' | 'deepseek-legacy' | 'none'
+
+export interface ReasoningModelProfile {
+    format?: ReasoningFormat
+    // Maximum thinking tokens; 0 turns thinking off, -1 leaves it unrestricted
+    budget?: number
+}
+
+export interface ReasoningAgentProfile {
+    enableThinking?: boolean
+    // Extra chat template variables, sent as chat_template_kwargs
+    chatTemplateKwargs?: Record<string, unknown>
+}
+
+export interface ReasoningConfig {
+    // Keyed by model ID glob, e.g. "qwen3*" or "*-r1*"
+    models?: Record<string, ReasoningModelProfile>
+    // Keyed by agent name, e.g. {title: {enableThinking: false}}
+    agents?: Record<string, ReasoningAgentProfile>
+}
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent'
+
+// Provider `log` option; OPENCODE_LLAMA_CPP_LOG overrides it
+export interface LogConfig {
+    level?: LogLevel
+    // One JSON object per line instead of readable console lines
+    json?: boolean
+    // Also append JSON lines to this file, e.g. to attach to a bug report
+    file?: string
+}
+
+export interface AutoDetectOptions {
+    hosts?: string[]
+    // Port numbers or "start-end" ranges
+    ports?: Array<number | string>
+    // Per-probe timeout in milliseconds
+    timeout?: number
+    // Taken from the pending provider's options: a server started with --api-key only answers with the key
+    apiKey?: string
+    headers?: Record<string, string>
+}
+
+// Which signal identified the server as llama.cpp
+export type LlamaCppFingerprint = 'owned_by' | 'props' | 'health'
+
+export interface DetectedLlamaCppServer {
+    baseURL: string
+    fingerprint: LlamaCppFingerprint
+    buildInfo?: string
+}
+
 export type ModelType = 'chat' | 'embedding' | 'unknown'
 
+export interface ModelCapabilities {
+    type: ModelType
+    vision: boolean
+    audio: boolean
+    // Only set when the server reports it
+    toolCall?: boolean
+    // Whether the model thinks before answering (<think> blocks)
+    reasoning?: boolean
+    // Whether server metadata decided the type, or only the model name was available
+    source: 'metadata' | 'name'
+}
+
 export type LoadingStatus = 'not_loaded' | 'loading' | 'loaded' | 'error'
 
 export interface ModelLoadingState {
@@ -23,8 +235,107 @@ export interface ModelLoadingState {
     error?: string
 }
 
+export interface ModelLoadingEvent {
+    modelId: string
+    baseURL: string
+    previousStatus: LoadingStatus
+    state: ModelLoadingState
+}
+
+export interface ModelLoadingMonitorOptions {
+    pollInterval?: number
+    loadingTimeout?: number
+    apiKey?: string
+}
+
+// Kinds of llama-server requests, each with its own timeout
+// status: /health, /v1/models, /props, /slots, /metrics, /lora-adapters; admin: loading models and setting adapters
+export type LlamaCppCallType = 'status' | 'tokenize' | 'embedding' | 'completion' | 'probe' | 'admin'
+
+// Provider options shaping every request the plugin sends to a server
+export interface LlamaCppClientConfig {
+    // Milliseconds per call type, e.g. {"status": 10000} for a server on a slow network
+    timeouts?: Partial<Record<LlamaCppCallType, number>>
+    // Extra headers, e.g. for a reverse proxy in front of llama-server
+    headers?: Record<string, string>
+    // Retries of requests that failed on the network, timed out or got a 5xx answer (default 0)
+    retries?: number
+    retryDelay?: number
+}
+
+// network: nothing answered; timeout: no answer in time; http: non-2xx status; invalid_response: body failed validation
+export type LlamaCppErrorKind = 'network' | 'timeout' | 'http' | 'invalid_response'
+
+// Server state reported by llama-server's /health endpoint
+export type LlamaCppHealthStatus = 'ok' | 'loading' | 'error' | 'unavailable'
+
+export interface LlamaCppHealth {
+    status: LlamaCppHealthStatus
+    message?: string
+}
+
+// Slot entry reported by llama-server's /slots endpoint
+export interface LlamaCppSlot {
+    id: number
+    id_task?: number
+    n_ctx?: number
+    is_processing?: boolean
+    state?: number // Older builds: 0 = idle, 1 = processing
+    n_past?: number
+    n_prompt_tokens?: number
+    next_token?: {
+        has_next_token?: boolean
+        n_remain?: number
+        n_decoded?: number
+    }
+    [key: string]: any
+}
+
+export interface SlotStatus {
+    id: number
+    busy: boolean
+    contextSize?: number
+    promptTokens?: number
+    decodedTokens?: number
+}
+
+export interface LlamaCppServerStatus {
+    health: LlamaCppHealthStatus
+    slotsAvailable: boolean
+    totalSlots: number
+    idleSlots: number
+    busySlots: number
+    slots: SlotStatus[]
+}
+
+// Values scraped from llama-server's Prometheus /metrics endpoint (requires --metrics)
+export interface LlamaCppMetrics {
+    timestamp: number
+    promptTokensTotal?: number
+    promptSecondsTotal?: number
+    predictedTokensTotal?: number
+    predictedSecondsTotal?: number
+    promptTokensPerSecond?: number
+    predictedTokensPerSecond?: number
+    kvCacheUsageRatio?: number
+    kvCacheTokens?: number
+    requestsProcessing?: number
+    requestsDeferred?: number
+}
+
+export interface PerformanceSummary {
+    baseURL: string
+    duration: number
+    promptTokens: number
+    predictedTokens: number
+    promptTokensPerSecond?: number
+    predictedTokensPerSecond?: number
+    kvCacheUsageRatio?: number
+    peakRequestsDeferred: number
+}
+
 export interface ModelValidationError {
-    type: 'offline' | 'not_found' | 'network' | 'permission' | 'timeout' | 'unknown'
+    type: 'offline' | 'loading' | 'not_found' | 'network' | 'permission' | 'timeout' | 'unknown'
     severity: 'low' | 'medium' | 'high' | 'critical'
     message: string
     canRetry: boolean
@@ -44,16 +355,64 @@ export interface SimilarModel {
     reason: string
 }
 
+export type CircuitState = 'closed' | 'open' | 'half-open'
+
+export interface CircuitBreakerOptions {
+    // Failed validations before the circuit opens
+    failureThreshold?: number
+    // How long an open circuit fails fast before it lets a probe through, in milliseconds
+    resetTimeout?: number
+}
+
+export interface CircuitStatus {
+    state: CircuitState
+    failures: number
+    // Milliseconds until an open circuit lets the next probe through
+    retryIn?: number
+}
+
 export interface CacheStats {
     size: number
+    // Circuit state of servers that failed recently; servers not listed are closed
+    circuits?: Record<string, CircuitState>
     entries: Array<{
         baseURL: string
         age: number
         modelCount: number
         ttl: number
+        // Loaded from the on-disk discovery cache and not revalidated against the server yet
+        stale: boolean
     }>
 }
 
+export interface ModelSetChange {
+    providerID: string
+    baseURL: string
+    added: string[]
+    removed: string[]
+}
+
+export interface PersistedDiscovery {
+    models: string[]
+    // Provider model entries keyed like config.provider[id].models
+    modelConfigs: Record<string, any>
+    // Last time the server answered a discovery
+    timestamp: number
+    // Starts in a row on which the server could not be reached to revalidate the entry
+    offlineRevalidations?: number
+    // Capability probe results per model ID
+    probes?: Record<string, ModelProbeResult>
+}
+
+// What the capability probes found out about a model; fields stay unset when a probe couldn't tell
+export interface ModelProbeResult {
+    // Server build, model file, chat template and launch arguments the probes ran against; a change probes again
+    fingerprint: string
+    toolCall?: boolean
+    embeddingDimension?: number
+    fim?: boolean
+}
+
 export interface LlamaCppValidationResult {
     status: 'success' | 'error'
     model: string
@@ -76,4 +435,19 @@ export interface LlamaCppValidationResult {
         totalCacheEntries: number
     }
     performanceHint?: string
+    slots?: {
+        total: number
+        idle: number
+        busy: number
+    }
+    promptBudget?: PromptBudget
+}
+
+export interface PromptBudget {
+    // Tokens of the captured prompt text
+    tokens: number
+    // Estimate for what the text leaves out: chat template markup and tool definitions
+    reserved: number
+    contextSize: number
+    exceeded: boolean
 }
\ No newline at end of file
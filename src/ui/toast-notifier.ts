@@ -1,8 +1,11 @@
+import {Logger} from '../utils/logger'
+import type {ModelLoadingEvent} from '../types'
+
 // UI notification system for llama.cpp plugin
 export class ToastNotifier {
     private client: any // OpenCode client
 
-    constructor(client: any) {
+    constructor(client: any, private readonly logger: Logger = new Logger()) {
         this.client = client
     }
 
@@ -10,7 +13,7 @@ export class ToastNotifier {
     async success(message: string, title?: string, duration?: number): Promise<void> {
         try {
             if (!this.client?.tui?.showToast) {
-                console.warn('[opencode-llama-cpp] Toast API not available (client.tui.showToast missing)')
+                this.logger.warn('Toast API not available (client.tui.showToast missing)')
                 return
             }
             await this.client.tui.showToast({
@@ -22,7 +25,7 @@ export class ToastNotifier {
                 }
             })
         } catch (error) {
-            console.error(`[opencode-llama-cpp] Failed to show success toast`, error)
+            this.logger.error(`Failed to show success toast`, error)
         }
     }
 
@@ -30,7 +33,7 @@ export class ToastNotifier {
     async error(message: string, title?: string, duration?: number): Promise<void> {
         try {
             if (!this.client?.tui?.showToast) {
-                console.warn('[opencode-llama-cpp] Toast API not available (client.tui.showToast missing)')
+                this.logger.warn('Toast API not available (client.tui.showToast missing)')
                 return
             }
             await this.client.tui.showToast({
@@ -42,7 +45,7 @@ export class ToastNotifier {
                 }
             })
         } catch (error) {
-            console.error(`[opencode-llama-cpp] Failed to show error toast`, error)
+            this.logger.error(`Failed to show error toast`, error)
         }
     }
 
@@ -50,7 +53,7 @@ export class ToastNotifier {
     async warning(message: string, title?: string, duration?: number): Promise<void> {
         try {
             if (!this.client?.tui?.showToast) {
-                console.warn('[opencode-llama-cpp] Toast API not available (client.tui.showToast missing)')
+                this.logger.warn('Toast API not available (client.tui.showToast missing)')
                 return
             }
             await this.client.tui.showToast({
@@ -62,7 +65,7 @@ export class ToastNotifier {
                 }
             })
         } catch (error) {
-            console.error(`[opencode-llama-cpp] Failed to show warning toast`, error)
+            this.logger.error(`Failed to show warning toast`, error)
         }
     }
 
@@ -70,7 +73,7 @@ export class ToastNotifier {
     async info(message: string, title?: string, duration?: number): Promise<void> {
         try {
             if (!this.client?.tui?.showToast) {
-                console.warn('[opencode-llama-cpp] Toast API not available (client.tui.showToast missing)')
+                this.logger.warn('Toast API not available (client.tui.showToast missing)')
                 return
             }
             await this.client.tui.showToast({
@@ -82,7 +85,7 @@ export class ToastNotifier {
                 }
             })
         } catch (error) {
-            console.error(`[opencode-llama-cpp] Failed to show info toast`, error)
+            this.logger.error(`Failed to show info toast`, error)
         }
     }
 
@@ -90,7 +93,7 @@ export class ToastNotifier {
     async progress(message: string, title?: string, progress?: number): Promise<void> {
         try {
             if (!this.client?.tui?.showToast) {
-                console.warn('[opencode-llama-cpp] Toast API not available (client.tui.showToast missing)')
+                this.logger.warn('Toast API not available (client.tui.showToast missing)')
                 return
             }
             await this.client.tui.showToast({
@@ -102,7 +105,7 @@ export class ToastNotifier {
                 }
             })
         } catch (error) {
-            console.error(`[opencode-llama-cpp] Failed to show progress toast`, error)
+            this.logger.error(`Failed to show progress toast`, error)
         }
     }
 
@@ -115,7 +118,7 @@ export class ToastNotifier {
     }): Promise<void> {
         try {
             if (!this.client?.tui?.showToast) {
-                console.warn('[opencode-llama-cpp] Toast API not available (client.tui.showToast missing)')
+                this.logger.warn('Toast API not available (client.tui.showToast missing)')
                 return
             }
             await this.client.tui.showToast({
@@ -127,7 +130,29 @@ export class ToastNotifier {
                 }
             })
         } catch (error) {
-            console.error(`[opencode-llama-cpp] Failed to show detailed toast`, error)
+            this.logger.error(`Failed to show detailed toast`, error)
+        }
+    }
+
+    // Show a toast for model loading state changes reported by ModelLoadingMonitor
+    async loadingState(event: ModelLoadingEvent): Promise<void> {
+        const {modelId, previousStatus, state} = event
+        if (previousStatus === state.status) {
+            return // Progress updates are shown by the caller
+        }
+
+        switch (state.status) {
+            case 'loading': {
+                const eta = state.eta !== undefined ? ` (about ${Math.ceil(state.eta / 1000)}s)` : ''
+                await this.info(`Loading model '${modelId}'${eta}...`, "Model Loading")
+                break
+            }
+            case 'loaded':
+                await this.success(`Model '${modelId}' loaded`, "Model Loading")
+                break
+            case 'error':
+                await this.error(`Model '${modelId}' failed to load: ${state.error || 'unknown error'}`, "Model Loading Failed")
+                break
         }
     }
 }
\ No newline at end of file
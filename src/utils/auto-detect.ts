@@ -0,0 +1,128 @@
+import {LlamaCppClient, LlamaCppError} from './llama-cpp-api'
+import type {AutoDetectOptions, DetectedLlamaCppServer, LlamaCppFingerprint, LlamaCppModel} from '../types'
+
+export const DEFAULT_DETECT_HOSTS = ['127.0.0.1']
+export const DEFAULT_DETECT_PORTS = [1234, 8080, 11434]
+export const DEFAULT_DETECT_TIMEOUT = 1500
+export const LLAMA_CPP_DETECT_HOSTS_ENV = "LLAMA_CPP_HOSTS"
+export const LLAMA_CPP_DETECT_PORTS_ENV = "LLAMA_CPP_PORTS"
+
+const MAX_DETECT_CANDIDATES = 256 // Keep a typo like "1-65535" from flooding the network
+
+// Parse a port list like [8080, "8081-8085"] or "8080,8081-8085" into port numbers
+export function parsePortList(ports: Array<number | string> | string): number[] {
+    const entries = typeof ports === 'string' ? ports.split(',') : ports
+    const parsed: number[] = []
+    for (const entry of entries) {
+        const text = String(entry).trim()
+        const range = /^(\d+)\s*-\s*(\d+)$/.exec(text)
+        if (range) {
+            const start = Number(range[1])
+            const end = Number(range[2])
+            for (let port = start; port <= end && parsed.length < MAX_DETECT_CANDIDATES; port++) {
+                parsed.push(port)
+            }
+        } else if (/^\d+$/.test(text)) {
+            parsed.push(Number(text))
+        }
+    }
+    return [...new Set(parsed.filter(port => port > 0 && port < 65536))]
+}
+
+// Merge detection settings: explicit options win, then LLAMA_CPP_HOSTS / LLAMA_CPP_PORTS, then defaults
+export function resolveAutoDetectOptions(options: AutoDetectOptions = {}): Required<Omit<AutoDetectOptions, 'apiKey' | 'headers'>> {
+    const envHosts = process.env[LLAMA_CPP_DETECT_HOSTS_ENV]
+    const envPorts = process.env[LLAMA_CPP_DETECT_PORTS_ENV]
+
+    const hosts = options.hosts?.length
+        ? options.hosts
+        : envHosts ? envHosts.split(',').map(host => host.trim()).filter(Boolean) : DEFAULT_DETECT_HOSTS
+    const ports = options.ports?.length
+        ? parsePortList(options.ports)
+        : envPorts ? parsePortList(envPorts) : DEFAULT_DETECT_PORTS
+
+    return {
+        hosts: hosts.length > 0 ? hosts : DEFAULT_DETECT_HOSTS,
+        ports: ports.length > 0 ? ports : DEFAULT_DETECT_PORTS,
+        timeout: options.timeout && options.timeout > 0 ? options.timeout : DEFAULT_DETECT_TIMEOUT,
+    }
+}
+
+// Build the candidate base URLs; hosts may carry a scheme ("https://gpu-box") and default to http
+function buildCandidates(hosts: string[], ports: number[]): string[] {
+    const candidates: string[] = []
+    for (const host of hosts) {
+        const origin = /^https?:\/\//.test(host) ? host.replace(/\/+$/, '') : `http://${host}`
+        for (const port of ports) {
+            candidates.push(`${origin}:${port}`)
+        }
+    }
+    return candidates.slice(0, MAX_DETECT_CANDIDATES)
+}
+
+// Whether the server answered at all, even with an error status or a body that isn't a model list
+function answered(error: unknown): boolean {
+    return error instanceof LlamaCppError && (error.kind === 'http' || error.kind === 'invalid_response')
+}
+
+// Tell llama-server apart from other OpenAI-compatible servers (LM Studio, Ollama, vLLM)
+// Returns which signal matched, or null when the server is not llama.cpp
+export async function fingerprintLlamaCpp(
+    baseURL: string,
+    timeout: number = DEFAULT_DETECT_TIMEOUT,
+    apiKey?: string,
+    headers?: Record<string, string>
+): Promise<{ fingerprint: LlamaCppFingerprint; buildInfo?: string } | null> {
+    // Every probe is a status call, bounded by the detection timeout and never retried
+    const client = new LlamaCppClient(baseURL, {apiKey, headers, timeouts: {status: timeout}})
+
+    let models: LlamaCppModel[] | undefined
+    try {
+        models = await client.listModels()
+    } catch (error) {
+        if (!answered(error)) {
+            return null // Nothing is listening
+        }
+    }
+
+    // llama-server reports itself as the model owner
+    if (models?.some(model => model.owned_by === 'llamacpp')) {
+        return {fingerprint: 'owned_by'}
+    }
+
+    // /props is llama.cpp specific
+    const props = await client.getProps().catch(() => null)
+    if (props && typeof props === 'object' &&
+        (props.default_generation_settings !== undefined || props.total_slots !== undefined || props.build_info !== undefined)) {
+        return {fingerprint: 'props', buildInfo: typeof props.build_info === 'string' ? props.build_info : undefined}
+    }
+
+    // /health answers {"status":"ok"} when ready and a 503 error object while loading
+    try {
+        const health = await client.getHealthBody()
+        return health?.status === 'ok' ? {fingerprint: 'health'} : null
+    } catch (error) {
+        return error instanceof LlamaCppError && error.status === 503 && error.serverMessage !== undefined
+            ? {fingerprint: 'health'}
+            : null
+    }
+}
+
+// Probe every host/port combination in parallel and keep the servers that fingerprint as llama.cpp
+// Results follow the configured host/port order, not the order in which probes finished
+export async function autoDetectLlamaCppServers(options: AutoDetectOptions = {}): Promise<DetectedLlamaCppServer[]> {
+    const {hosts, ports, timeout} = resolveAutoDetectOptions(options)
+    const candidates = buildCandidates(hosts, ports as number[])
+
+    const results = await Promise.all(candidates.map(async baseURL => {
+        const match = await fingerprintLlamaCpp(baseURL, timeout, options.apiKey, options.headers)
+        return match ? {baseURL, ...match} : null
+    }))
+    return results.filter((server): server is DetectedLlamaCppServer => server !== null)
+}
+
+// Auto-detect llama.cpp if not configured
+export async function autoDetectLlamaCpp(options: AutoDetectOptions = {}): Promise<string | null> {
+    const servers = await autoDetectLlamaCppServers(options)
+    return servers.length > 0 ? servers[0].baseURL : null
+}
@@ -0,0 +1,27 @@
+import {homedir} from 'os'
+import {join} from 'path'
+
+export const LLAMA_CPP_CACHE_DIR_ENV = "OPENCODE_LLAMA_CPP_CACHE_DIR"
+const CACHE_DIR_NAME = "opencode-llama-cpp"
+const DISCOVERY_CACHE_FILE = "discovery.json"
+
+// Platform cache dir: XDG_CACHE_HOME or ~/.cache on Linux, ~/Library/Caches on macOS, LOCALAPPDATA on Windows
+export function getUserCacheDir(): string {
+    const override = process.env[LLAMA_CPP_CACHE_DIR_ENV]
+    if (override) {
+        return override
+    }
+
+    if (process.platform === 'darwin') {
+        return join(homedir(), 'Library', 'Caches', CACHE_DIR_NAME)
+    }
+    if (process.platform === 'win32') {
+        return join(process.env.LOCALAPPDATA || join(homedir(), 'AppData', 'Local'), CACHE_DIR_NAME)
+    }
+    return join(process.env.XDG_CACHE_HOME || join(homedir(), '.cache'), CACHE_DIR_NAME)
+}
+
+// File holding the last discovered models per server; resolved on every call so the env override applies
+export function getDiscoveryCachePath(): string {
+    return join(getUserCacheDir(), DISCOVERY_CACHE_FILE)
+}
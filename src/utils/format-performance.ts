@@ -0,0 +1,55 @@
+import type {LlamaCppMetrics, PerformanceSummary} from '../types'
+
+function formatRate(tokensPerSecond: number | undefined): string | undefined {
+    return tokensPerSecond !== undefined && tokensPerSecond > 0 ? `${tokensPerSecond.toFixed(1)} tok/s` : undefined
+}
+
+/**
+ * Format live server throughput for llamaCppValidation.performanceHint
+ * e.g. "Generation 42.1 tok/s, prompt 850.3 tok/s, KV cache 35% used"
+ */
+export function formatPerformanceHint(summary: PerformanceSummary, latest?: LlamaCppMetrics): string | undefined {
+    const parts: string[] = []
+
+    const generation = formatRate(summary.predictedTokensPerSecond)
+    if (generation) {
+        parts.push(`Generation ${generation}`)
+    }
+    const prompt = formatRate(summary.promptTokensPerSecond)
+    if (prompt) {
+        parts.push(`prompt ${prompt}`)
+    }
+    if (summary.kvCacheUsageRatio !== undefined) {
+        parts.push(`KV cache ${Math.round(summary.kvCacheUsageRatio * 100)}% used`)
+    }
+    if (latest?.requestsDeferred) {
+        parts.push(`${latest.requestsDeferred} request(s) waiting for a free slot`)
+    }
+
+    if (parts.length === 0) {
+        return undefined
+    }
+    const hint = parts.join(', ')
+    return hint.charAt(0).toUpperCase() + hint.slice(1)
+}
+
+/**
+ * Format a session summary for the idle toast
+ * e.g. "Generated 1,204 tokens at 38.2 tok/s, processed 9,876 prompt tokens at 812.0 tok/s"
+ */
+export function formatSessionSummary(summary: PerformanceSummary): string {
+    const parts = [`Generated ${summary.predictedTokens.toLocaleString('en-US')} tokens`]
+    const generation = formatRate(summary.predictedTokensPerSecond)
+    if (generation) {
+        parts[0] += ` at ${generation}`
+    }
+
+    if (summary.promptTokens > 0) {
+        const prompt = formatRate(summary.promptTokensPerSecond)
+        parts.push(`processed ${summary.promptTokens.toLocaleString('en-US')} prompt tokens${prompt ? ` at ${prompt}` : ''}`)
+    }
+    if (summary.peakRequestsDeferred > 0) {
+        parts.push(`up to ${summary.peakRequestsDeferred} request(s) queued`)
+    }
+    return parts.join(', ')
+}
@@ -0,0 +1,17 @@
+// Convert a simple glob ("*" = any characters, "?" = one character) to a case-insensitive RegExp
+export function globToRegExp(pattern: string): RegExp {
+    const escaped = pattern
+        .split('')
+        .map(char => {
+            if (char === '*') return '.*'
+            if (char === '?') return '.'
+            return char.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+        })
+        .join('')
+    return new RegExp(`^${escaped}$`, 'i')
+}
+
+// Check if a value matches a glob pattern
+export function matchesGlob(value: string, pattern: string): boolean {
+    return globToRegExp(pattern).test(value)
+}
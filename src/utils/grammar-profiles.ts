@@ -0,0 +1,49 @@
+import {readFile} from 'fs/promises'
+import {homedir} from 'os'
+import {isAbsolute, resolve} from 'path'
+import type {GrammarConfig, GrammarProfile} from '../types'
+
+// Grammar files rarely change during a session, so read each one once
+const grammarFileCache = new Map<string, string>()
+
+// Resolve a grammar file path; "~" expands to the home directory, relative paths to the working directory
+export function resolveGrammarPath(file: string): string {
+    if (file === '~' || file.startsWith('~/')) {
+        return resolve(homedir(), file.slice(2))
+    }
+    return isAbsolute(file) ? file : resolve(process.cwd(), file)
+}
+
+// Find the grammar profile assigned to an agent
+export function resolveGrammarProfile(config: GrammarConfig | undefined, agent?: string): {
+    name: string;
+    profile: GrammarProfile
+} | undefined {
+    if (!config || typeof config !== 'object' || !agent) {
+        return undefined
+    }
+
+    const name = config.agents?.[agent]
+    const profile = name ? config.profiles?.[name] : undefined
+    return name && profile ? {name, profile} : undefined
+}
+
+// Turn a profile into llama-server request fields (grammar or json_schema)
+export async function loadGrammarFields(profile: GrammarProfile): Promise<Record<string, unknown>> {
+    if (profile.jsonSchema) {
+        return {json_schema: profile.jsonSchema}
+    }
+    if (profile.grammar) {
+        return {grammar: profile.grammar}
+    }
+    if (profile.file) {
+        const path = resolveGrammarPath(profile.file)
+        let grammar = grammarFileCache.get(path)
+        if (grammar === undefined) {
+            grammar = await readFile(path, 'utf8')
+            grammarFileCache.set(path, grammar)
+        }
+        return {grammar}
+    }
+    return {}
+}
@@ -1,21 +1,16 @@
+import {LlamaCppError, ModelLoadError} from './llama-cpp-error'
+import {Logger} from './logger'
 import type {AutoFixSuggestion, ModelValidationError, SimilarModel} from '../types'
 
 export {formatModelName, extractModelOwner} from './format-model-name'
-
-// Categorize models by type
-export function categorizeModel(modelId: string): 'chat' | 'embedding' | 'unknown' {
-    const lowerId = modelId.toLowerCase()
-    if (lowerId.includes('embedding') || lowerId.includes('embed')) {
-        return 'embedding'
-    }
-    if (lowerId.includes('gpt') || lowerId.includes('llama') ||
-        lowerId.includes('claude') || lowerId.includes('qwen') ||
-        lowerId.includes('mistral') || lowerId.includes('gemma') ||
-        lowerId.includes('phi') || lowerId.includes('falcon')) {
-        return 'chat'
-    }
-    return 'unknown'
-}
+export {resolveModelLimit, resolveModelModalities} from './model-metadata'
+export {categorizeModel, resolveModelCapabilities, templateSupportsReasoning, templateSupportsTools} from './model-capabilities'
+export {formatPerformanceHint, formatSessionSummary} from './format-performance'
+export {matchesGlob} from './glob'
+export {applySamplingProfile, resolveSamplingProfile} from './sampling-profiles'
+export {applyReasoningProfile, resolveReasoningProfile} from './reasoning-profiles'
+export {loadGrammarFields, resolveGrammarPath, resolveGrammarProfile} from './grammar-profiles'
+export {buildLoraVariants, LoraVariants} from './lora-adapters'
 
 // Enhanced model similarity matching
 export function findSimilarModels(targetModel: string, availableModels: string[]): SimilarModel[] {
@@ -72,25 +67,29 @@ export function findSimilarModels(targetModel: string, availableModels: string[]
 }
 
 // Retry logic with exponential backoff
+// `cause` is the error of the last attempt; `shouldRetry` stops early on errors another attempt can't fix
 export async function retryWithBackoff<T>(
     operation: () => Promise<T>,
     maxRetries: number = 3,
-    baseDelay: number = 1000
-): Promise<{ success: boolean; result?: T; error?: string }> {
+    baseDelay: number = 1000,
+    logger: Logger = new Logger(),
+    shouldRetry: (error: unknown) => boolean = () => true
+): Promise<{ success: boolean; result?: T; error?: string; cause?: unknown }> {
     for (let attempt = 0; attempt <= maxRetries; attempt++) {
         try {
             const result = await operation()
             return {success: true, result}
         } catch (error) {
-            if (attempt === maxRetries) {
+            if (attempt === maxRetries || !shouldRetry(error)) {
                 return {
                     success: false,
-                    error: error instanceof Error ? error.message : String(error)
+                    error: error instanceof Error ? error.message : String(error),
+                    cause: error
                 }
             }
 
             const delay = baseDelay * Math.pow(2, attempt)
-            console.warn(`[opencode-llama-cpp] Retrying operation after ${delay}ms`, {
+            logger.warn(`Retrying operation after ${delay}ms`, {
                 attempt: attempt + 1,
                 maxRetries: maxRetries + 1,
                 error: error instanceof Error ? error.message : String(error)
@@ -101,13 +100,38 @@ export async function retryWithBackoff<T>(
     return {success: false, error: "Max retries exceeded"}
 }
 
+// Whether a request got no answer at all: the server is down or hung, not just failing this request
+// Only these count against the circuit breaker; an HTTP error or a failed model load came from a server that is up
+export function isServerUnreachable(error: unknown): boolean {
+    const llamaCppError = error instanceof LlamaCppError ? error
+        : (error as any)?.cause instanceof LlamaCppError ? (error as any).cause : undefined
+    return llamaCppError?.kind === 'network' || llamaCppError?.kind === 'timeout'
+}
+
 // Smart error categorization
+// A LlamaCppError, thrown directly or as the cause of another error, is categorized by its kind and status;
+// other errors by their message
 export function categorizeError(error: any, context: { baseURL: string; modelId: string }): ModelValidationError {
-    const errorStr = String(error).toLowerCase()
+    const errorStr = (error instanceof Error ? error.message : String(error)).toLowerCase()
     const {baseURL, modelId} = context
+    const llamaCppError = error instanceof LlamaCppError ? error : error?.cause instanceof LlamaCppError ? error.cause : undefined
+    const kind = llamaCppError?.kind
+    const status = llamaCppError?.status
+
+    // A load the server accepted but didn't finish; its message may say "timeout", but the server is up
+    if (error instanceof ModelLoadError) {
+        return {
+            type: 'loading',
+            severity: 'medium',
+            message: `Model '${modelId}' did not finish loading on llama.cpp at ${baseURL}: ${error.message}`,
+            canRetry: true,
+            autoFixAvailable: false
+        }
+    }
 
     // Network/connection issues
-    if (errorStr.includes('econnrefused') || errorStr.includes('fetch failed') || errorStr.includes('network')) {
+    if (kind === 'network' || errorStr.includes('econnrefused') || errorStr.includes('fetch failed') || errorStr.includes('network') ||
+        errorStr.includes('circuit open')) {
         return {
             type: 'offline',
             severity: 'critical',
@@ -118,7 +142,7 @@ export function categorizeError(error: any, context: { baseURL: string; modelId:
     }
 
     // Timeout issues
-    if (errorStr.includes('timeout') || errorStr.includes('aborted')) {
+    if (kind === 'timeout' || errorStr.includes('timeout') || errorStr.includes('aborted')) {
         return {
             type: 'timeout',
             severity: 'medium',
@@ -128,8 +152,19 @@ export function categorizeError(error: any, context: { baseURL: string; modelId:
         }
     }
 
+    // Server still loading a model: llama-server answers 503 "Loading model" until it is ready
+    if (status === 503 || (status === undefined && errorStr.includes('loading model'))) {
+        return {
+            type: 'loading',
+            severity: 'medium',
+            message: `llama.cpp at ${baseURL} is still loading a model. Retry once loading has finished.`,
+            canRetry: true,
+            autoFixAvailable: false
+        }
+    }
+
     // Model not found
-    if (errorStr.includes('404') || errorStr.includes('not found')) {
+    if (status === 404 || (status === undefined && (errorStr.includes('404') || errorStr.includes('not found')))) {
         return {
             type: 'not_found',
             severity: 'high',
@@ -140,11 +175,11 @@ export function categorizeError(error: any, context: { baseURL: string; modelId:
     }
 
     // Permission issues
-    if (errorStr.includes('401') || errorStr.includes('403') || errorStr.includes('unauthorized')) {
+    if (status === 401 || status === 403 || errorStr.includes('401') || errorStr.includes('403') || errorStr.includes('unauthorized')) {
         return {
             type: 'permission',
             severity: 'high',
-            message: `Authentication or permission issue with llama.cpp. Check your configuration.`,
+            message: `Authentication or permission issue with llama.cpp. Set options.apiKey on the provider or the LLAMA_API_KEY environment variable to match the server's --api-key.`,
             canRetry: false,
             autoFixAvailable: false
         }
@@ -206,6 +241,38 @@ export function generateAutoFixSuggestions(errorCategory: ModelValidationError):
                 ],
                 automated: false
             })
+            suggestions.push({
+                action: "Load models on demand",
+                steps: [
+                    "1. Start llama-server in router mode (--models-dir or --models-preset)",
+                    "2. Set options.autoLoad to true on the llama.cpp provider",
+                    "3. Retry your request"
+                ],
+                automated: false
+            })
+            break
+
+        case 'permission':
+            suggestions.push({
+                action: "Configure the llama.cpp API key",
+                steps: [
+                    "1. Find the --api-key the llama.cpp server was started with",
+                    "2. Set options.apiKey on the llama.cpp provider, or export LLAMA_API_KEY",
+                    "3. Restart OpenCode"
+                ],
+                automated: false
+            })
+            break
+
+        case 'loading':
+            suggestions.push({
+                action: "Wait for the model to finish loading",
+                steps: [
+                    "1. Watch the llama.cpp server log until the model is loaded",
+                    "2. Retry your request"
+                ],
+                automated: false
+            })
             break
 
         case 'timeout':
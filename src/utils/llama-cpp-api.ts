@@ -1,92 +1,314 @@
-import type {LlamaCppModel, LlamaCppModelsResponse} from '../types'
+import {DEFAULT_LLAMA_CPP_URL, LlamaCppClient} from './llama-cpp-client'
+import {LlamaCppError} from './llama-cpp-error'
+import type {
+    LlamaCppEmbeddings,
+    LlamaCppEmbedOptions,
+    LlamaCppHealth,
+    LlamaCppInfillRequest,
+    LlamaCppInfillResult,
+    LlamaCppLoraAdapter,
+    LlamaCppMetrics,
+    LlamaCppModel,
+    LlamaCppProps,
+    LlamaCppSlot,
+    LoraSelection
+} from '../types'
 
-const DEFAULT_LLAMA_CPP_URL = "http://127.0.0.1:1234"
-const LLAMA_CPP_MODELS_ENDPOINT = "/v1/models"
+export {
+    buildAPIURL,
+    buildAuthHeaders,
+    DEFAULT_LLAMA_CPP_TIMEOUTS,
+    DEFAULT_LLAMA_CPP_URL,
+    LLAMA_CPP_API_KEY_ENV,
+    LlamaCppClient,
+    LlamaCppClients,
+    normalizeBaseURL,
+    resolveApiKey,
+    resolveClientConfig
+} from './llama-cpp-client'
+export type {LlamaCppClientOptions} from './llama-cpp-client'
+export {LlamaCppError, ModelLoadError} from './llama-cpp-error'
 
-// Normalize base URL to ensure consistent format
-export function normalizeBaseURL(baseURL: string = DEFAULT_LLAMA_CPP_URL): string {
-    // Remove trailing slash
-    let normalized = baseURL.replace(/\/+$/, '')
+const DEFAULT_EMBED_BATCH_SIZE = 32
+const DEFAULT_INFILL_MAX_TOKENS = 128
 
-    // Remove /v1 suffix if present
-    if (normalized.endsWith('/v1')) {
-        normalized = normalized.slice(0, -3)
-    }
+// FIM prefix tokens of common code models: Qwen2.5-Coder, StarCoder, CodeLlama, DeepSeek-Coder, Codestral
+const FIM_PREFIX_TOKENS = ["<|fim_prefix|>", "<fim_prefix>", "<PRE>", "<｜fim▁begin｜>", "[PREFIX]"]
 
-    return normalized
+const TOOL_PROBE_TOOL = {
+    type: "function",
+    function: {
+        name: "get_time",
+        description: "Get the current time",
+        parameters: {type: "object", properties: {}, required: []},
+    },
 }
 
-// Build full API URL with endpoint
-export function buildAPIURL(baseURL: string, endpoint: string = LLAMA_CPP_MODELS_ENDPOINT): string {
-    const normalized = normalizeBaseURL(baseURL)
-    return `${normalized}${endpoint}`
+// A server to call: its base URL (with the API key passed alongside), or a client carrying its settings and key
+export type LlamaCppTarget = string | LlamaCppClient
+
+function toClient(server: LlamaCppTarget = DEFAULT_LLAMA_CPP_URL, apiKey?: string): LlamaCppClient {
+    return typeof server === 'string' ? new LlamaCppClient(server, {apiKey}) : server
+}
+
+// The server answered, but with an error status: a reachable server without the data
+function isHttpError(error: unknown): boolean {
+    return error instanceof LlamaCppError && error.kind === 'http'
 }
 
 // Check if llama.cpp is accessible
-export async function checkLlamaCppHealth(baseURL: string = DEFAULT_LLAMA_CPP_URL): Promise<boolean> {
-    try {
-        const url = buildAPIURL(baseURL)
-        const response = await fetch(url, {
-            method: "GET",
-            signal: AbortSignal.timeout(3000),
-        })
-        return response.ok
-    } catch {
-        return false
-    }
+export async function checkLlamaCppHealth(server: LlamaCppTarget = DEFAULT_LLAMA_CPP_URL, apiKey?: string): Promise<boolean> {
+    return await toClient(server, apiKey).isReachable()
+}
+
+// Read the server state from /health: 200 when ready, 503 "Loading model" while a model loads
+export async function fetchLlamaCppHealth(server: LlamaCppTarget = DEFAULT_LLAMA_CPP_URL, apiKey?: string): Promise<LlamaCppHealth> {
+    return await toClient(server, apiKey).getHealth()
+}
+
+// Fetch per-slot state from /slots; returns null when the endpoint is disabled (--no-slots) or unreachable
+export async function fetchLlamaCppSlots(server: LlamaCppTarget = DEFAULT_LLAMA_CPP_URL, apiKey?: string): Promise<LlamaCppSlot[] | null> {
+    return await toClient(server, apiKey).getSlots().catch(() => null)
+}
+
+// Scrape Prometheus metrics; returns null when the server runs without --metrics
+export async function fetchLlamaCppMetrics(server: LlamaCppTarget = DEFAULT_LLAMA_CPP_URL, apiKey?: string): Promise<LlamaCppMetrics | null> {
+    return await toClient(server, apiKey).getMetrics().catch(() => null)
 }
 
 // Discover models from llama.cpp API
-export async function discoverLlamaCppModels(baseURL: string = DEFAULT_LLAMA_CPP_URL): Promise<LlamaCppModel[]> {
+// Returns [] when the server answers without a model list (e.g. 503 while loading), throws a LlamaCppError when it can't be reached
+export async function discoverLlamaCppModels(server: LlamaCppTarget = DEFAULT_LLAMA_CPP_URL, apiKey?: string): Promise<LlamaCppModel[]> {
     try {
-        const url = buildAPIURL(baseURL)
-        const response = await fetch(url, {
-            method: "GET",
-            headers: {
-                "Content-Type": "application/json",
-            },
-            signal: AbortSignal.timeout(3000),
-        })
-
-        if (!response.ok) {
+        return await toClient(server, apiKey).listModels()
+    } catch (error) {
+        if (isHttpError(error)) {
             return []
         }
+        throw error
+    }
+}
 
-        const data = (await response.json()) as LlamaCppModelsResponse
-        return data.data ?? []
+// Get currently loaded/active models from llama.cpp (bypass cache)
+// Unlike discovery, only a missing model list (404) counts as no models: other HTTP errors (401, 503 while loading)
+// are rethrown, so validation can tell the user why the model isn't available
+export async function fetchLlamaCppModelsDirect(server: LlamaCppTarget = DEFAULT_LLAMA_CPP_URL, apiKey?: string): Promise<string[]> {
+    let models: LlamaCppModel[]
+    try {
+        models = await toClient(server, apiKey).listModels()
     } catch (error) {
-        throw new Error(`Failed to discover models: ${error instanceof Error ? error.message : String(error)}`)
+        if (error instanceof LlamaCppError && error.status === 404) {
+            return []
+        }
+        throw error
     }
+    // In router mode the list also contains models that are available but not loaded
+    return models
+        .filter((model: LlamaCppModel) => !model.status || model.status.value === 'loaded')
+        .map((model: LlamaCppModel) => model.id)
 }
 
-// Get currently loaded/active models from llama.cpp (bypass cache)
-export async function fetchLlamaCppModelsDirect(baseURL: string = DEFAULT_LLAMA_CPP_URL): Promise<string[]> {
+// Tokenize text with the server's model tokenizer
+export async function tokenizeLlamaCpp(
+    server: LlamaCppTarget,
+    content: string,
+    apiKey?: string,
+    options: { model?: string; addSpecial?: boolean } = {}
+): Promise<number[]> {
+    return await toClient(server, apiKey).tokenize(content, options)
+}
+
+// Turn token ids back into text with the server's model tokenizer
+export async function detokenizeLlamaCpp(server: LlamaCppTarget, tokens: number[], apiKey?: string, model?: string): Promise<string> {
+    return await toClient(server, apiKey).detokenize(tokens, model)
+}
+
+// Count the tokens a text takes with the real model tokenizer; returns null when the server can't tokenize
+export async function countLlamaCppTokens(server: LlamaCppTarget, content: string, apiKey?: string, model?: string): Promise<number | null> {
+    try {
+        const tokens = await tokenizeLlamaCpp(server, content, apiKey, {model})
+        return tokens.length
+    } catch {
+        return null
+    }
+}
+
+// Embed texts with an embedding model (server started with --embeddings)
+// Uses the OpenAI-compatible /v1/embeddings, or llama.cpp's /embedding when a normalization is requested.
+// Inputs are sent in batches and the vectors come back in input order.
+export async function embedLlamaCpp(
+    server: LlamaCppTarget,
+    texts: string[],
+    model?: string,
+    options: LlamaCppEmbedOptions = {}
+): Promise<LlamaCppEmbeddings> {
+    const batchSize = options.batchSize && options.batchSize > 0 ? Math.floor(options.batchSize) : DEFAULT_EMBED_BATCH_SIZE
+    const vectors: number[][] = []
+    for (let start = 0; start < texts.length; start += batchSize) {
+        const batch = texts.slice(start, start + batchSize)
+        const batchVectors = options.normalize === undefined
+            ? await postOpenAIEmbeddings(server, batch, model, options.apiKey)
+            : await postNativeEmbeddings(server, batch, model, options.normalize, options.apiKey)
+        if (batchVectors.length !== batch.length) {
+            throw new Error(`Invalid embeddings response: expected ${batch.length} vectors, got ${batchVectors.length}`)
+        }
+        vectors.push(...batchVectors)
+    }
+
+    const dimension = vectors[0]?.length ?? 0
+    return {model, dimension, vectors}
+}
+
+// Get the embedding size of a model by embedding a single short input
+// Returns null when the model can't embed (e.g. the server runs without --embeddings)
+export async function getEmbeddingDimension(server: LlamaCppTarget, model: string, apiKey?: string): Promise<number | null> {
     try {
-        const url = buildAPIURL(baseURL)
-        const response = await fetch(url, {
-            method: "GET",
-            signal: AbortSignal.timeout(3000),
+        const {dimension} = await embedLlamaCpp(server, ["dimension probe"], model, {apiKey})
+        return dimension > 0 ? dimension : null
+    } catch {
+        return null
+    }
+}
+
+async function postOpenAIEmbeddings(server: LlamaCppTarget, input: string[], model?: string, apiKey?: string): Promise<number[][]> {
+    const data = await toClient(server, apiKey).createEmbeddings({
+        input,
+        encoding_format: "float",
+        ...(model ? {model} : {}),
+    })
+
+    return [...data.data]
+        .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+        .map(item => toVector(item.embedding))
+}
+
+async function postNativeEmbeddings(
+    server: LlamaCppTarget,
+    content: string[],
+    model: string | undefined,
+    normalize: number,
+    apiKey?: string
+): Promise<number[][]> {
+    const data = await toClient(server, apiKey).createNativeEmbeddings({
+        content,
+        embd_normalize: normalize,
+        ...(model ? {model} : {}),
+    })
+
+    // Each item holds a list of rows: one pooled row, or one row per token with --pooling none
+    return [...data]
+        .sort((a: any, b: any) => (a?.index ?? 0) - (b?.index ?? 0))
+        .map((item: any) => {
+            const rows = item?.embedding
+            if (!Array.isArray(rows) || !Array.isArray(rows[0])) {
+                return toVector(rows)
+            }
+            if (rows.length !== 1) {
+                throw new Error('Server returned per-token embeddings; start llama-server with a pooling type other than "none"')
+            }
+            return toVector(rows[0])
         })
-        if (!response.ok) {
-            throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+}
+
+function toVector(value: unknown): number[] {
+    if (!Array.isArray(value) || value.some(item => typeof item !== 'number')) {
+        throw new Error('Invalid embeddings response: embedding is not a list of numbers')
+    }
+    return value as number[]
+}
+
+// Complete code between a prefix and a suffix with a fill-in-the-middle capable model
+export async function infillLlamaCpp(server: LlamaCppTarget, request: LlamaCppInfillRequest, apiKey?: string): Promise<LlamaCppInfillResult> {
+    const data = await toClient(server, apiKey).infill({
+        ...request.options,
+        input_prefix: request.prefix,
+        input_suffix: request.suffix,
+        input_extra: request.extraContext ?? [],
+        n_predict: request.maxTokens ?? DEFAULT_INFILL_MAX_TOKENS,
+        stream: false,
+        ...(request.model ? {model: request.model} : {}),
+    })
+    return {
+        content: data.content,
+        tokensPredicted: data.tokens_predicted,
+        stoppedByLimit: data.stop_type === 'limit',
+    }
+}
+
+// Check whether a model can fill in the middle: its vocabulary has a FIM prefix token
+// that tokenizes to a single special token
+export async function detectFimSupport(server: LlamaCppTarget, model?: string, apiKey?: string): Promise<boolean> {
+    for (const token of FIM_PREFIX_TOKENS) {
+        try {
+            const tokens = await tokenizeLlamaCpp(server, token, apiKey, {model, addSpecial: false})
+            if (tokens.length === 1) {
+                return true
+            }
+        } catch {
+            return false // No tokenizer available, don't keep probing
         }
+    }
+    return false
+}
 
-        const data = (await response.json()) as LlamaCppModelsResponse
-        return data.data?.map((model: LlamaCppModel) => model.id) || []
+// List the LoRA adapters loaded with --lora; returns null when the server has none or is unreachable
+export async function fetchLlamaCppLoraAdapters(server: LlamaCppTarget, apiKey?: string): Promise<LlamaCppLoraAdapter[] | null> {
+    try {
+        const adapters = await toClient(server, apiKey).getLoraAdapters()
+        return adapters.filter((adapter: any) => typeof adapter?.id === 'number' && typeof adapter.path === 'string')
     } catch {
-        return []
+        return null
     }
 }
 
-// Auto-detect llama.cpp if not configured
-export async function autoDetectLlamaCpp(): Promise<string | null> {
-    const commonPorts = [1234, 8080, 11434]
-    for (const port of commonPorts) {
-        const baseURL = `http://127.0.0.1:${port}`
-        const isHealthy = await checkLlamaCppHealth(baseURL)
-        if (isHealthy) {
-            return baseURL
+// Set the server-wide adapter scales; per-request `lora` fields still override them
+export async function setLlamaCppLoraAdapters(server: LlamaCppTarget, adapters: LoraSelection[], apiKey?: string): Promise<void> {
+    await toClient(server, apiKey).setLoraAdapters(adapters)
+}
+
+// Reasoning models think before they call a tool; the budget leaves room for that
+const TOOL_PROBE_MAX_TOKENS = 1024
+
+// Check tool calling with a tiny request that asks for a tool call
+// Returns true for a tool call and false when the server rejects tools (no --jinja). A reply cut off by the
+// token limit or answered with text only is inconclusive, like an unreachable server: null, so it isn't kept
+export async function probeLlamaCppToolCalling(server: LlamaCppTarget, model?: string, apiKey?: string): Promise<boolean | null> {
+    try {
+        const data = await toClient(server, apiKey).probeChatCompletion({
+            messages: [{role: "user", content: "What time is it? Use the get_time tool."}],
+            tools: [TOOL_PROBE_TOOL],
+            tool_choice: "required",
+            max_tokens: TOOL_PROBE_MAX_TOKENS,
+            temperature: 0,
+            ...(model ? {model} : {}),
+        })
+        const toolCalls = data?.choices?.[0]?.message?.tool_calls
+        return Array.isArray(toolCalls) && toolCalls.length > 0 ? true : null
+    } catch (error) {
+        // llama-server answers 400/500 when tools are used without --jinja
+        if (error instanceof LlamaCppError && (error.kind === 'http' || error.kind === 'invalid_response')) {
+            return false
         }
+        return null
     }
-    return null
-}
\ No newline at end of file
+}
+
+// Ask a router-mode llama-server to load a model; the server loads it in the background
+export async function loadLlamaCppModel(server: LlamaCppTarget, modelId: string, apiKey?: string): Promise<void> {
+    await toClient(server, apiKey).loadModel(modelId)
+}
+
+// Ask a router-mode llama-server to unload a model
+export async function unloadLlamaCppModel(server: LlamaCppTarget, modelId: string, apiKey?: string): Promise<void> {
+    await toClient(server, apiKey).unloadModel(modelId)
+}
+
+// Fetch server properties (context size, chat template, modalities) from /props
+// In router mode the server reports per-model properties when a model is given
+export async function fetchLlamaCppProps(
+    server: LlamaCppTarget = DEFAULT_LLAMA_CPP_URL,
+    modelId?: string,
+    apiKey?: string
+): Promise<LlamaCppProps | null> {
+    return await toClient(server, apiKey).getProps(modelId).catch(() => null)
+}
@@ -0,0 +1,379 @@
+import {retryWithBackoff} from './index'
+import {LlamaCppError} from './llama-cpp-error'
+import {Logger} from './logger'
+import {parseLlamaCppMetrics} from './prometheus'
+import {
+    validateChatCompletionResponse,
+    validateDetokenizeResponse,
+    validateEmbeddingsResponse,
+    validateInfillResponse,
+    validateLlamaCppResponse,
+    validateLoraAdaptersResponse,
+    validateNativeEmbeddingsResponse,
+    validatePropsResponse,
+    validateSlotsResponse,
+    validateTokenizeResponse
+} from './validation/validate-llama-cpp-response'
+import type {ValidationResult} from './validation/validation-result'
+import type {
+    LlamaCppCallType,
+    LlamaCppClientConfig,
+    LlamaCppHealth,
+    LlamaCppLoraAdapter,
+    LlamaCppMetrics,
+    LlamaCppModel,
+    LlamaCppModelsResponse,
+    LlamaCppProps,
+    LlamaCppSlot,
+    LoraSelection
+} from '../types'
+
+export const DEFAULT_LLAMA_CPP_URL = "http://127.0.0.1:1234"
+export const LLAMA_CPP_API_KEY_ENV = "LLAMA_API_KEY"
+const LLAMA_CPP_MODELS_ENDPOINT = "/v1/models"
+const LLAMA_CPP_PROPS_ENDPOINT = "/props"
+const LLAMA_CPP_HEALTH_ENDPOINT = "/health"
+const LLAMA_CPP_SLOTS_ENDPOINT = "/slots"
+const LLAMA_CPP_METRICS_ENDPOINT = "/metrics"
+const LLAMA_CPP_TOKENIZE_ENDPOINT = "/tokenize"
+const LLAMA_CPP_DETOKENIZE_ENDPOINT = "/detokenize"
+const LLAMA_CPP_EMBEDDINGS_ENDPOINT = "/v1/embeddings"
+const LLAMA_CPP_EMBEDDING_ENDPOINT = "/embedding"
+const LLAMA_CPP_INFILL_ENDPOINT = "/infill"
+const LLAMA_CPP_CHAT_ENDPOINT = "/v1/chat/completions"
+const LLAMA_CPP_LORA_ENDPOINT = "/lora-adapters"
+const LLAMA_CPP_LOAD_ENDPOINT = "/models/load"
+const LLAMA_CPP_UNLOAD_ENDPOINT = "/models/unload"
+
+export const DEFAULT_LLAMA_CPP_TIMEOUTS: Record<LlamaCppCallType, number> = {
+    status: 3000,
+    tokenize: 10000,
+    embedding: 30000,
+    completion: 60000,
+    probe: 30000,
+    admin: 10000,
+}
+const DEFAULT_RETRY_DELAY = 500
+
+export interface LlamaCppClientOptions extends LlamaCppClientConfig {
+    apiKey?: string
+    logger?: Logger
+}
+
+interface RequestOptions {
+    method?: "GET" | "POST"
+    callType?: LlamaCppCallType
+    body?: unknown
+    // How to read a successful response; "none" only checks the status
+    parse?: "json" | "text" | "none"
+    validate?: (data: any) => ValidationResult
+}
+
+// Normalize base URL to ensure consistent format
+export function normalizeBaseURL(baseURL: string = DEFAULT_LLAMA_CPP_URL): string {
+    // Remove trailing slash
+    let normalized = baseURL.replace(/\/+$/, '')
+
+    // Remove /v1 suffix if present
+    if (normalized.endsWith('/v1')) {
+        normalized = normalized.slice(0, -3)
+    }
+
+    return normalized
+}
+
+// Build full API URL with endpoint
+export function buildAPIURL(baseURL: string, endpoint: string = LLAMA_CPP_MODELS_ENDPOINT): string {
+    const normalized = normalizeBaseURL(baseURL)
+    return `${normalized}${endpoint}`
+}
+
+// Resolve the API key for a server: the configured key wins, then the LLAMA_API_KEY env var
+export function resolveApiKey(apiKey?: unknown): string | undefined {
+    if (typeof apiKey === 'string' && apiKey.length > 0) {
+        return apiKey
+    }
+    const envKey = process.env[LLAMA_CPP_API_KEY_ENV]
+    return envKey ? envKey : undefined
+}
+
+// Build request headers, adding a bearer token for servers started with --api-key
+export function buildAuthHeaders(apiKey?: string, headers: Record<string, string> = {}): Record<string, string> {
+    const key = resolveApiKey(apiKey)
+    return key ? {...headers, Authorization: `Bearer ${key}`} : headers
+}
+
+// Pick the client settings out of a provider's options
+export function resolveClientConfig(options: any): LlamaCppClientConfig {
+    const config: LlamaCppClientConfig = {}
+    if (options?.timeouts && typeof options.timeouts === 'object') {
+        config.timeouts = Object.fromEntries(Object.entries(options.timeouts)
+            .filter(([callType, timeout]) => callType in DEFAULT_LLAMA_CPP_TIMEOUTS && typeof timeout === 'number' && timeout > 0))
+    }
+    if (options?.headers && typeof options.headers === 'object') {
+        config.headers = Object.fromEntries(Object.entries(options.headers)
+            .filter((entry): entry is [string, string] => typeof entry[1] === 'string'))
+    }
+    if (typeof options?.retries === 'number' && options.retries >= 0) {
+        config.retries = Math.floor(options.retries)
+    }
+    if (typeof options?.retryDelay === 'number' && options.retryDelay > 0) {
+        config.retryDelay = options.retryDelay
+    }
+    return config
+}
+
+// Client settings per server, registered from the provider config
+// Each plugin instance keeps its own, so instances don't see each other's timeouts, headers or retries
+export class LlamaCppClients {
+    private readonly configs = new Map<string, LlamaCppClientConfig>()
+
+    constructor(private readonly logger?: Logger) {
+    }
+
+    // Remember the settings of a server, so every request to it uses them
+    configure(baseURL: string, config: LlamaCppClientConfig): void {
+        this.configs.set(normalizeBaseURL(baseURL), config)
+    }
+
+    // A client for a server with its registered settings
+    get(baseURL: string = DEFAULT_LLAMA_CPP_URL, apiKey?: string): LlamaCppClient {
+        return new LlamaCppClient(baseURL, {...this.configs.get(normalizeBaseURL(baseURL)), apiKey, logger: this.logger})
+    }
+}
+
+// Typed HTTP client for one llama-server
+// Every request gets the timeout of its call type, the configured headers and the bearer token; failures
+// throw a LlamaCppError, and JSON bodies are validated before they are handed out
+export class LlamaCppClient {
+    readonly baseURL: string
+    private readonly timeouts: Record<LlamaCppCallType, number>
+    private readonly logger: Logger
+
+    constructor(baseURL: string = DEFAULT_LLAMA_CPP_URL, private readonly options: LlamaCppClientOptions = {}) {
+        this.baseURL = normalizeBaseURL(baseURL)
+        this.timeouts = {...DEFAULT_LLAMA_CPP_TIMEOUTS, ...options.timeouts}
+        this.logger = options.logger ?? new Logger()
+    }
+
+    // Whether the server answers its model list with a success status
+    async isReachable(): Promise<boolean> {
+        try {
+            await this.request(LLAMA_CPP_MODELS_ENDPOINT, {parse: "none"})
+            return true
+        } catch {
+            return false
+        }
+    }
+
+    // Server state from /health: 200 when ready, 503 "Loading model" while a model loads
+    async getHealth(): Promise<LlamaCppHealth> {
+        try {
+            await this.request(LLAMA_CPP_HEALTH_ENDPOINT, {parse: "none"})
+            return {status: 'ok'}
+        } catch (error) {
+            if (!(error instanceof LlamaCppError) || error.kind !== 'http') {
+                return {status: 'unavailable', message: error instanceof Error ? error.message : String(error)}
+            }
+            if (error.status === 503) {
+                return {status: 'loading', message: error.serverMessage || 'Loading model'}
+            }
+            return {status: 'error', message: error.serverMessage || error.message}
+        }
+    }
+
+    // The /health body itself, {"status": "ok"} when ready; auto-detection checks it to recognize llama-server
+    async getHealthBody(): Promise<any> {
+        return await this.request(LLAMA_CPP_HEALTH_ENDPOINT)
+    }
+
+    async listModels(): Promise<LlamaCppModel[]> {
+        const data = await this.request<LlamaCppModelsResponse>(LLAMA_CPP_MODELS_ENDPOINT, {validate: validateLlamaCppResponse})
+        return data.data ?? []
+    }
+
+    // In router mode the server reports per-model properties when a model is given
+    async getProps(modelId?: string): Promise<LlamaCppProps> {
+        const endpoint = modelId
+            ? `${LLAMA_CPP_PROPS_ENDPOINT}?model=${encodeURIComponent(modelId)}`
+            : LLAMA_CPP_PROPS_ENDPOINT
+        return await this.request<LlamaCppProps>(endpoint, {validate: validatePropsResponse})
+    }
+
+    async getSlots(): Promise<LlamaCppSlot[]> {
+        return await this.request<LlamaCppSlot[]>(LLAMA_CPP_SLOTS_ENDPOINT, {validate: validateSlotsResponse})
+    }
+
+    // Prometheus metrics; a body without any llama.cpp metric is an invalid response
+    async getMetrics(): Promise<LlamaCppMetrics> {
+        const metrics = parseLlamaCppMetrics(await this.request<string>(LLAMA_CPP_METRICS_ENDPOINT, {parse: "text"}))
+        // Only the timestamp means the body had none of the llama.cpp metrics
+        if (Object.keys(metrics).length <= 1) {
+            throw new LlamaCppError(`Invalid ${LLAMA_CPP_METRICS_ENDPOINT} response: no llama.cpp metrics`, 'invalid_response', LLAMA_CPP_METRICS_ENDPOINT)
+        }
+        return metrics
+    }
+
+    async tokenize(content: string, options: { model?: string; addSpecial?: boolean } = {}): Promise<number[]> {
+        const data = await this.request<{ tokens: any[] }>(LLAMA_CPP_TOKENIZE_ENDPOINT, {
+            method: "POST",
+            callType: 'tokenize',
+            body: {
+                content,
+                add_special: options.addSpecial ?? true,
+                ...(options.model ? {model: options.model} : {}),
+            },
+            validate: validateTokenizeResponse,
+        })
+        // with_pieces responses contain {id, piece} objects instead of plain ids
+        return data.tokens.map((token: any) => typeof token === 'number' ? token : token.id)
+    }
+
+    async detokenize(tokens: number[], model?: string): Promise<string> {
+        const data = await this.request<{ content?: unknown }>(LLAMA_CPP_DETOKENIZE_ENDPOINT, {
+            method: "POST",
+            callType: 'tokenize',
+            body: {tokens, ...(model ? {model} : {})},
+            validate: validateDetokenizeResponse,
+        })
+        return typeof data.content === 'string' ? data.content : ''
+    }
+
+    // OpenAI-compatible /v1/embeddings
+    async createEmbeddings(body: Record<string, unknown>): Promise<{ data: Array<{ index?: number; embedding?: unknown }> }> {
+        return await this.request(LLAMA_CPP_EMBEDDINGS_ENDPOINT, {
+            method: "POST",
+            callType: 'embedding',
+            body,
+            validate: validateEmbeddingsResponse,
+        })
+    }
+
+    // llama.cpp's native /embedding, which supports embd_normalize
+    async createNativeEmbeddings(body: Record<string, unknown>): Promise<any[]> {
+        return await this.request(LLAMA_CPP_EMBEDDING_ENDPOINT, {
+            method: "POST",
+            callType: 'embedding',
+            body,
+            validate: validateNativeEmbeddingsResponse,
+        })
+    }
+
+    async infill(body: Record<string, unknown>): Promise<{ content: string; tokens_predicted?: number; stop_type?: string }> {
+        return await this.request(LLAMA_CPP_INFILL_ENDPOINT, {
+            method: "POST",
+            callType: 'completion',
+            body,
+            validate: validateInfillResponse,
+        })
+    }
+
+    // A short chat completion used to probe what the model can do
+    async probeChatCompletion(body: Record<string, unknown>): Promise<any> {
+        return await this.request(LLAMA_CPP_CHAT_ENDPOINT, {
+            method: "POST",
+            callType: 'probe',
+            body,
+            validate: validateChatCompletionResponse,
+        })
+    }
+
+    async getLoraAdapters(): Promise<LlamaCppLoraAdapter[]> {
+        return await this.request<LlamaCppLoraAdapter[]>(LLAMA_CPP_LORA_ENDPOINT, {validate: validateLoraAdaptersResponse})
+    }
+
+    async setLoraAdapters(adapters: LoraSelection[]): Promise<void> {
+        await this.request(LLAMA_CPP_LORA_ENDPOINT, {method: "POST", callType: 'admin', body: adapters, parse: "none"})
+    }
+
+    // Router mode: the server loads the model in the background
+    async loadModel(modelId: string): Promise<void> {
+        await this.request(LLAMA_CPP_LOAD_ENDPOINT, {method: "POST", callType: 'admin', body: {model: modelId}, parse: "none"})
+    }
+
+    async unloadModel(modelId: string): Promise<void> {
+        await this.request(LLAMA_CPP_UNLOAD_ENDPOINT, {method: "POST", callType: 'admin', body: {model: modelId}, parse: "none"})
+    }
+
+    // Send a request with retries of transient failures
+    private async request<T>(endpoint: string, options: RequestOptions = {}): Promise<T> {
+        const result = await retryWithBackoff(
+            () => this.send<T>(endpoint, options),
+            this.options.retries ?? 0,
+            this.options.retryDelay ?? DEFAULT_RETRY_DELAY,
+            this.logger,
+            error => error instanceof LlamaCppError && error.retryable
+        )
+        if (!result.success) {
+            throw result.cause
+        }
+        return result.result as T
+    }
+
+    private async send<T>(endpoint: string, options: RequestOptions): Promise<T> {
+        const {method = "GET", callType = 'status', body, parse = "json", validate} = options
+        const timeout = this.timeouts[callType]
+
+        let response: Response
+        try {
+            response = await fetch(buildAPIURL(this.baseURL, endpoint), {
+                method,
+                headers: buildAuthHeaders(this.options.apiKey, {
+                    ...this.options.headers,
+                    ...(body !== undefined ? {"Content-Type": "application/json"} : {}),
+                }),
+                ...(body !== undefined ? {body: JSON.stringify(body)} : {}),
+                signal: AbortSignal.timeout(timeout),
+            })
+        } catch (error) {
+            const name = error instanceof Error ? error.name : undefined
+            if (name === 'TimeoutError' || name === 'AbortError') {
+                throw new LlamaCppError(`Request to ${endpoint} hit the ${timeout}ms timeout`, 'timeout', endpoint, {cause: error})
+            }
+            const reason = error instanceof Error ? error.message : String(error)
+            throw new LlamaCppError(`Network error calling ${endpoint}: ${reason}`, 'network', endpoint, {cause: error})
+        }
+
+        if (!response.ok) {
+            const serverMessage = await readErrorMessage(response)
+            throw new LlamaCppError(`HTTP ${response.status}: ${serverMessage || response.statusText}`, 'http', endpoint, {
+                status: response.status,
+                serverMessage,
+            })
+        }
+        if (parse === "none") {
+            return undefined as T
+        }
+
+        let data: any
+        try {
+            data = parse === "text" ? await response.text() : await response.json()
+        } catch (error) {
+            throw new LlamaCppError(`Invalid ${endpoint} response: body is not ${parse === "text" ? "text" : "JSON"}`, 'invalid_response', endpoint, {
+                status: response.status,
+                cause: error,
+            })
+        }
+
+        const validation = validate?.(data)
+        if (validation && !validation.isValid) {
+            throw new LlamaCppError(`Invalid ${endpoint} response: ${validation.errors.join('; ')}`, 'invalid_response', endpoint, {
+                status: response.status,
+            })
+        }
+        if (validation && validation.warnings.length > 0) {
+            this.logger.debug(`Unexpected ${endpoint} response`, {baseURL: this.baseURL, warnings: validation.warnings})
+        }
+        return data as T
+    }
+}
+
+// llama-server explains failures in {"error": {"message": ...}}
+async function readErrorMessage(response: Response): Promise<string | undefined> {
+    try {
+        const body = await response.json() as any
+        return typeof body?.error?.message === 'string' ? body.error.message : undefined
+    } catch {
+        return undefined
+    }
+}
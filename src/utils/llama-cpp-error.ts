@@ -0,0 +1,41 @@
+import type {LlamaCppErrorKind} from '../types'
+
+// A failed llama-server request, with what went wrong and the HTTP status when the server answered
+export class LlamaCppError extends Error {
+    readonly kind: LlamaCppErrorKind
+    readonly endpoint: string
+    readonly status?: number
+    // The server's own explanation from its {"error": {"message": ...}} body
+    readonly serverMessage?: string
+
+    constructor(
+        message: string,
+        kind: LlamaCppErrorKind,
+        endpoint: string,
+        options: { status?: number; serverMessage?: string; cause?: unknown } = {}
+    ) {
+        super(message, {cause: options.cause})
+        this.name = 'LlamaCppError'
+        this.kind = kind
+        this.endpoint = endpoint
+        this.status = options.status
+        this.serverMessage = options.serverMessage
+    }
+
+    // Worth another attempt: nothing answered in time, or the server failed (5xx, e.g. 503 while loading)
+    get retryable(): boolean {
+        return this.kind === 'network' || this.kind === 'timeout' || (this.status !== undefined && this.status >= 500)
+    }
+}
+
+// A model the server accepted to load but that didn't become ready (it failed or timed out while loading)
+// The server itself answered, so this never counts as the server being offline
+export class ModelLoadError extends Error {
+    readonly modelId: string
+
+    constructor(message: string, modelId: string) {
+        super(message)
+        this.name = 'ModelLoadError'
+        this.modelId = modelId
+    }
+}
@@ -0,0 +1,186 @@
+import {DEFAULT_LLAMA_CPP_URL, normalizeBaseURL, resolveApiKey, resolveClientConfig} from './llama-cpp-api'
+import type {AutoDetectOptions, DetectedLlamaCppServer, LogConfig} from '../types'
+
+export const LLAMA_CPP_PROVIDER_ID = "llama.cpp"
+
+const LOOPBACK_HOSTS = new Set(['127.0.0.1', 'localhost', '[::1]'])
+
+export interface LlamaCppServer {
+    providerID: string
+    baseURL: string
+    apiKey?: string
+}
+
+// Server entry in the llama.cpp provider's `options.servers` list
+export type LlamaCppServerEntry = string | {
+    baseURL: string
+    name?: string
+    apiKey?: string
+}
+
+// Check if a provider ID belongs to this plugin ("llama.cpp" or "llama.cpp@<server>")
+export function isLlamaCppProviderID(providerID: string): boolean {
+    return providerID === LLAMA_CPP_PROVIDER_ID || providerID.startsWith(`${LLAMA_CPP_PROVIDER_ID}@`)
+}
+
+function isLoopbackServer(baseURL: string): boolean {
+    try {
+        return LOOPBACK_HOSTS.has(new URL(normalizeBaseURL(baseURL)).hostname)
+    } catch {
+        return false
+    }
+}
+
+// Short server label: just the port for local servers, "host:port" for remote ones
+export function getServerLabel(baseURL: string): string {
+    try {
+        const url = new URL(normalizeBaseURL(baseURL))
+        const port = url.port || (url.protocol === 'https:' ? '443' : '80')
+        return isLoopbackServer(baseURL) ? port : `${url.hostname}:${port}`
+    } catch {
+        return baseURL
+    }
+}
+
+// Derive a provider ID for a server, e.g. "llama.cpp@8080" or "llama.cpp@192.168.1.20:8080"
+export function getServerProviderID(baseURL: string): string {
+    return `${LLAMA_CPP_PROVIDER_ID}@${getServerLabel(baseURL)}`
+}
+
+// Create an OpenAI-compatible provider entry pointing at a llama.cpp server
+// The API key is carried into the provider options so OpenCode's own requests authenticate too
+export function createLlamaCppProvider(
+    baseURL: string,
+    name: string = "llama.cpp (local)",
+    apiKey: string | undefined = resolveApiKey()
+): Record<string, any> {
+    const options: Record<string, any> = {
+        baseURL: `${normalizeBaseURL(baseURL)}/v1`,
+    }
+    if (apiKey) {
+        options.apiKey = apiKey
+    }
+    return {
+        npm: "@ai-sdk/openai-compatible",
+        name,
+        options,
+        models: {},
+    }
+}
+
+// Register a provider for every entry in the llama.cpp provider's `options.servers` list
+// Derived providers inherit the shared options of the primary provider
+export function expandLlamaCppServers(config: any): void {
+    const providers = config?.provider
+    const primary = providers?.[LLAMA_CPP_PROVIDER_ID]
+    if (!primary || !Array.isArray(primary.options?.servers)) {
+        return
+    }
+
+    const primaryURL = normalizeBaseURL(primary.options.baseURL || DEFAULT_LLAMA_CPP_URL)
+    const {servers, ...sharedOptions} = primary.options
+
+    for (const entry of servers as LlamaCppServerEntry[]) {
+        const server = typeof entry === 'string' ? {baseURL: entry} : entry
+        if (!server || typeof server.baseURL !== 'string') {
+            continue
+        }
+
+        const baseURL = normalizeBaseURL(server.baseURL)
+        const providerID = getServerProviderID(baseURL)
+        if (baseURL === primaryURL || providers[providerID]) {
+            continue
+        }
+
+        const provider = createLlamaCppProvider(
+            baseURL,
+            server.name || `llama.cpp (${getServerLabel(baseURL)})`,
+            resolveApiKey(server.apiKey ?? sharedOptions.apiKey)
+        )
+        providers[providerID] = {
+            ...provider,
+            npm: primary.npm || provider.npm,
+            options: {
+                ...sharedOptions,
+                ...provider.options,
+            },
+        }
+    }
+}
+
+// A llama.cpp provider with `options.autoDetect` but no baseURL asks the plugin to find the server
+export function isPendingAutoDetect(provider: any): boolean {
+    return !!provider?.options?.autoDetect && !provider.options.baseURL
+}
+
+// Detection settings from the pending llama.cpp provider, if any
+export function getAutoDetectOptions(config: any): AutoDetectOptions {
+    const options = config?.provider?.[LLAMA_CPP_PROVIDER_ID]?.options
+    const autoDetect = options?.autoDetect
+    return {
+        ...(autoDetect && typeof autoDetect === 'object' ? autoDetect : {}), // `true` means the defaults
+        // Probe with the credentials the provider will use once the server is found
+        apiKey: resolveApiKey(options?.apiKey),
+        headers: resolveClientConfig(options).headers
+    }
+}
+
+// The `log` option of the first llama.cpp provider that sets one; logging is plugin-wide
+export function getLogConfig(config: any): LogConfig | undefined {
+    for (const [providerID, provider] of Object.entries<any>(config?.provider || {})) {
+        const log = provider?.options?.log
+        if (isLlamaCppProviderID(providerID) && log && typeof log === 'object') {
+            return log
+        }
+    }
+    return undefined
+}
+
+// Create providers for auto-detected servers; the first one keeps the plain "llama.cpp" ID
+// A pending llama.cpp provider keeps its own options and just receives the detected baseURL
+export function registerDetectedServers(config: any, servers: Array<Pick<DetectedLlamaCppServer, 'baseURL'>>): void {
+    if (servers.length === 0) {
+        return
+    }
+    if (!config.provider) {
+        config.provider = {}
+    }
+
+    servers.forEach(({baseURL}, index) => {
+        const providerID = index === 0 ? LLAMA_CPP_PROVIDER_ID : getServerProviderID(baseURL)
+        const provider = createLlamaCppProvider(
+            baseURL,
+            index === 0 && isLoopbackServer(baseURL) ? undefined : `llama.cpp (${getServerLabel(baseURL)})`
+        )
+
+        const existing = config.provider[providerID]
+        if (isPendingAutoDetect(existing)) {
+            const options = {...existing.options, ...provider.options}
+            delete options.autoDetect
+            config.provider[providerID] = {
+                ...provider,
+                ...existing,
+                options,
+                models: existing.models || {},
+            }
+        } else if (!existing) {
+            config.provider[providerID] = provider
+        }
+    })
+}
+
+// List every llama.cpp provider in the config together with its normalized base URL
+export function listLlamaCppServers(config: any): LlamaCppServer[] {
+    const providers = config?.provider
+    if (!providers || typeof providers !== 'object') {
+        return []
+    }
+
+    return Object.keys(providers)
+        .filter(providerID => isLlamaCppProviderID(providerID) && !isPendingAutoDetect(providers[providerID]))
+        .map(providerID => ({
+            providerID,
+            baseURL: normalizeBaseURL(providers[providerID]?.options?.baseURL || DEFAULT_LLAMA_CPP_URL),
+            apiKey: resolveApiKey(providers[providerID]?.options?.apiKey)
+        }))
+}
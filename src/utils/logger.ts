@@ -0,0 +1,144 @@
+import {appendFile, mkdir} from 'fs/promises'
+import {homedir} from 'os'
+import {dirname, join, resolve} from 'path'
+import type {LogConfig, LogLevel} from '../types'
+
+export const LLAMA_CPP_LOG_ENV = "OPENCODE_LLAMA_CPP_LOG"
+const LOG_PREFIX = "[opencode-llama-cpp]"
+const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error', 'silent']
+const DEFAULT_LOG_LEVEL: LogLevel = 'info'
+
+export interface ResolvedLogOptions {
+    level: LogLevel
+    json: boolean
+    file?: string
+}
+
+// Appends to the log file run one after another, so lines from concurrent hooks don't interleave
+let fileQueue: Promise<void> = Promise.resolve()
+
+function isLogLevel(value: unknown): value is LogLevel {
+    return typeof value === 'string' && (LOG_LEVELS as string[]).includes(value)
+}
+
+function resolveLogPath(path: string): string {
+    return resolve(path.startsWith('~') ? join(homedir(), path.slice(1)) : path)
+}
+
+/**
+ * Resolve logging options from the provider's `log` option and the OPENCODE_LLAMA_CPP_LOG env var.
+ * The env var is a comma-separated list such as "debug,json,file=/tmp/llama-cpp.log" and wins over the config.
+ */
+export function resolveLogOptions(config?: LogConfig, env: string | undefined = process.env[LLAMA_CPP_LOG_ENV]): ResolvedLogOptions {
+    const options: ResolvedLogOptions = {
+        level: isLogLevel(config?.level) ? config.level : DEFAULT_LOG_LEVEL,
+        json: config?.json === true,
+        file: typeof config?.file === 'string' && config.file ? resolveLogPath(config.file) : undefined
+    }
+
+    for (const token of (env || '').split(',').map(token => token.trim()).filter(Boolean)) {
+        if (isLogLevel(token)) {
+            options.level = token
+        } else if (token === 'json' || token === 'text') {
+            options.json = token === 'json'
+        } else if (token.startsWith('file=') && token.length > 'file='.length) {
+            options.file = resolveLogPath(token.slice('file='.length))
+        }
+    }
+    return options
+}
+
+// Errors don't survive JSON.stringify, keep their message and stack
+function toSerializable(value: unknown): unknown {
+    if (value instanceof Error) {
+        return {message: value.message, stack: value.stack}
+    }
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+        return Object.fromEntries(Object.entries(value).map(([key, field]) => [key, toSerializable(field)]))
+    }
+    return value
+}
+
+// Leveled logger: human-readable console lines by default, one JSON object per line in JSON mode,
+// and JSON lines appended to a log file when one is set
+export class Logger {
+    private options: ResolvedLogOptions
+
+    constructor(options: ResolvedLogOptions = resolveLogOptions()) {
+        this.options = {...options}
+    }
+
+    // Apply the plugin config; the env var still takes precedence
+    // Only this logger changes: the plugin hands it to every module, so the setting reaches them all
+    configure(config?: LogConfig): void {
+        this.options = resolveLogOptions(config)
+    }
+
+    getLevel(): LogLevel {
+        return this.options.level
+    }
+
+    debug(message: string, details?: unknown): void {
+        this.write('debug', message, details)
+    }
+
+    info(message: string, details?: unknown): void {
+        this.write('info', message, details)
+    }
+
+    warn(message: string, details?: unknown): void {
+        this.write('warn', message, details)
+    }
+
+    error(message: string, details?: unknown): void {
+        this.write('error', message, details)
+    }
+
+    // Resolves once pending writes to the log file are done
+    async flush(): Promise<void> {
+        await fileQueue
+    }
+
+    private write(level: Exclude<LogLevel, 'silent'>, message: string, details?: unknown): void {
+        if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(this.options.level)) {
+            return
+        }
+
+        const line = this.options.json || this.options.file ? this.formatJson(level, message, details) : undefined
+        if (this.options.json) {
+            console[level](line)
+        } else {
+            const prefix = level === 'debug' ? `${LOG_PREFIX.slice(0, -1)}:DEBUG]` : LOG_PREFIX
+            if (details === undefined) {
+                console[level](`${prefix} ${message}`)
+            } else {
+                console[level](`${prefix} ${message}`, details)
+            }
+        }
+
+        const file = this.options.file
+        if (file) {
+            fileQueue = fileQueue
+                .then(async () => {
+                    await mkdir(dirname(file), {recursive: true})
+                    await appendFile(file, `${line}\n`, 'utf-8')
+                })
+                .catch(error => {
+                    console.warn(`${LOG_PREFIX} Could not write log file`, {
+                        file,
+                        error: error instanceof Error ? error.message : String(error)
+                    })
+                })
+        }
+    }
+
+    private formatJson(level: string, message: string, details?: unknown): string {
+        const fields = toSerializable(details)
+        return JSON.stringify({
+            time: new Date().toISOString(),
+            level,
+            message: message.replace(/:$/, ''),
+            ...(fields && typeof fields === 'object' && !Array.isArray(fields) ? fields : fields !== undefined ? {details: fields} : {})
+        })
+    }
+}
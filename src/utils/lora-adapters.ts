@@ -0,0 +1,58 @@
+import type {LlamaCppLoraAdapter, LoraSelection, LoraVariant} from '../types'
+
+// Readable adapter name from its file path, e.g. "our-codebase" from "/loras/our-codebase.gguf"
+export function getLoraAdapterName(adapter: LlamaCppLoraAdapter): string {
+    const file = adapter.path.split(/[\\/]/).pop() || `lora-${adapter.id}`
+    return file.replace(/\.gguf$/i, '').replace(/[^a-zA-Z0-9_-]/g, '_')
+}
+
+// Model key of a variant: "<model>+<adapter>", with "@<scale>" when the scale isn't 1
+export function getLoraVariantKey(modelKey: string, adapterName: string, scale: number): string {
+    return scale === 1 ? `${modelKey}+${adapterName}` : `${modelKey}+${adapterName}@${scale}`
+}
+
+// Build a model config per adapter/scale combination from the base model's config
+// Variants keep the base model ID, so requests reach the same server model with a different `lora` field
+export function buildLoraVariants(
+    modelKey: string,
+    modelConfig: Record<string, any>,
+    adapters: LlamaCppLoraAdapter[],
+    scales: number[] = [1]
+): Record<string, any> {
+    const variants: Record<string, any> = {}
+    for (const adapter of adapters) {
+        const adapterName = getLoraAdapterName(adapter)
+        for (const scale of scales) {
+            variants[getLoraVariantKey(modelKey, adapterName, scale)] = {
+                ...modelConfig,
+                name: scale === 1
+                    ? `${modelConfig.name} + ${adapterName}`
+                    : `${modelConfig.name} + ${adapterName} (${scale})`,
+                lora: [{id: adapter.id, scale}] satisfies LoraSelection[],
+            }
+        }
+    }
+    return variants
+}
+
+// LoRA variants per provider, keyed by the variant's model key; read by chat.params to select the adapter
+export class LoraVariants {
+    private readonly variants = new Map<string, Map<string, LoraVariant>>()
+
+    // Register every model config carrying a `lora` selection as a variant of the provider
+    // Replaces the provider's previous variants, so adapters removed from the server disappear
+    register(providerID: string, models: Record<string, any>): void {
+        const variants = new Map<string, LoraVariant>()
+        for (const [modelKey, modelConfig] of Object.entries(models)) {
+            if (Array.isArray(modelConfig?.lora) && typeof modelConfig.id === 'string') {
+                variants.set(modelKey, {modelId: modelConfig.id, lora: modelConfig.lora})
+            }
+        }
+        this.variants.set(providerID, variants)
+    }
+
+    // Look up the variant behind a model key, if it is one
+    get(providerID: string, modelKey: string): LoraVariant | undefined {
+        return this.variants.get(providerID)?.get(modelKey)
+    }
+}
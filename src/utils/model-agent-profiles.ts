@@ -0,0 +1,32 @@
+import {matchesGlob} from './glob'
+
+export interface ModelAgentConfig<T> {
+    models?: Record<string, T>
+    agents?: Record<string, T>
+}
+
+/**
+ * Resolve a per-model/per-agent profile.
+ * Every model glob that matches is merged in config order, then the agent profile is applied on top.
+ * `applyAgent` lets a caller merge nested fields of the agent profile instead of replacing them.
+ */
+export function resolveModelAgentProfile<T extends object>(
+    config: ModelAgentConfig<T> | undefined,
+    modelId: string,
+    agent?: string,
+    applyAgent: (profile: T | undefined, agentProfile: T) => T = (profile, agentProfile) => ({...profile, ...agentProfile})
+): T | undefined {
+    if (!config || typeof config !== 'object') {
+        return undefined
+    }
+
+    let profile: T | undefined
+    for (const [pattern, modelProfile] of Object.entries(config.models || {})) {
+        if (matchesGlob(modelId, pattern)) {
+            profile = {...profile, ...modelProfile}
+        }
+    }
+
+    const agentProfile = agent ? config.agents?.[agent] : undefined
+    return agentProfile ? applyAgent(profile, agentProfile) : profile
+}
@@ -0,0 +1,91 @@
+import type {LlamaCppModel, LlamaCppProps, ModelCapabilities, ModelType} from '../types'
+
+const VISION_NAME_PATTERN = /(^|[-_/.])(vl|vision|llava|mmproj)([-_/.]|$)/i
+const REASONING_NAME_PATTERN = /(qwq|qwen3|deepseek-r1|(^|[-_/.])r1([-_/.]|$)|thinking|reasoning|magistral|gpt-oss)/i
+
+// Categorize models by type from their name alone; only used when the server reports nothing better
+export function categorizeModel(modelId: string): 'chat' | 'embedding' | 'unknown' {
+    const lowerId = modelId.toLowerCase()
+    if (lowerId.includes('embedding') || lowerId.includes('embed')) {
+        return 'embedding'
+    }
+    if (lowerId.includes('gpt') || lowerId.includes('llama') ||
+        lowerId.includes('claude') || lowerId.includes('qwen') ||
+        lowerId.includes('mistral') || lowerId.includes('gemma') ||
+        lowerId.includes('phi') || lowerId.includes('falcon')) {
+        return 'chat'
+    }
+    return 'unknown'
+}
+
+// llama.cpp pooling types: 0/"none" keeps per-token output, anything else pools into one embedding
+function isPooled(poolingType: unknown): boolean {
+    if (typeof poolingType === 'number') {
+        return poolingType > 0
+    }
+    return typeof poolingType === 'string' && poolingType !== '' && poolingType !== 'none' && poolingType !== 'unspecified'
+}
+
+// A chat template that renders a tools list supports tool calling (with --jinja), one that never mentions
+// tools can't; undefined when it can't tell
+export function templateSupportsTools(template?: string): boolean | undefined {
+    if (!template) {
+        return undefined
+    }
+    if (!/\btools?\b|tool_calls?\b/.test(template)) {
+        return false
+    }
+    return /\btools\b/.test(template) && /tool_calls?\b/.test(template) ? true : undefined
+}
+
+// A chat template that opens a <think> block or takes an enable_thinking switch belongs to a reasoning model
+export function templateSupportsReasoning(template?: string): boolean | undefined {
+    if (!template) {
+        return undefined
+    }
+    return /<think>|enable_thinking|reasoning_content/.test(template)
+}
+
+// Router-mode servers report each model's launch arguments
+function hasArg(model: LlamaCppModel, ...names: string[]): boolean {
+    return model.status?.args?.some(arg => names.includes(arg.split('=')[0])) ?? false
+}
+
+/**
+ * Resolve what a model can do from server-reported metadata:
+ * /props pooling type and chat template decide embedding vs chat, /props modalities (or a loaded
+ * mmproj) decide vision and audio input, the chat template caps (or the template itself) decide tool calling,
+ * and the template decides reasoning.
+ * The model name is only used for whatever the server doesn't report.
+ */
+export function resolveModelCapabilities(model: LlamaCppModel, props?: LlamaCppProps | null): ModelCapabilities {
+    let type: ModelType | undefined
+    if (isPooled(props?.pooling_type) || hasArg(model, '--embedding', '--embeddings', '--pooling')) {
+        type = 'embedding'
+    } else if (props?.chat_template) {
+        type = 'chat'
+    }
+    const source = type ? 'metadata' : 'name'
+    type ??= categorizeModel(model.id)
+
+    if (type === 'embedding') {
+        return {type, vision: false, audio: false, source}
+    }
+
+    const vision = props?.modalities?.vision
+        ?? (hasArg(model, '--mmproj', '-mm', '--mmproj-url', '-mmu') || VISION_NAME_PATTERN.test(model.id))
+    const audio = props?.modalities?.audio ?? false
+    const toolCall = props?.chat_template_caps?.supports_tool_calls
+        ?? props?.chat_template_caps?.supports_tools
+        ?? templateSupportsTools(props?.chat_template)
+    const reasoning = templateSupportsReasoning(props?.chat_template) ?? REASONING_NAME_PATTERN.test(model.id)
+
+    return {
+        type,
+        vision,
+        audio,
+        ...(typeof toolCall === 'boolean' ? {toolCall} : {}),
+        reasoning,
+        source
+    }
+}
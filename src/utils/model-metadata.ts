@@ -0,0 +1,57 @@
+import type {LlamaCppModelMeta, LlamaCppProps, ModelCapabilities, ModelLimit, ModelModalities, ModelModality} from '../types'
+
+// Without an n_predict cap, offer a quarter of the context for output, at most this many tokens
+// OpenCode keeps limit.output free for the reply, so the full context would leave no room for the prompt
+const DEFAULT_OUTPUT_LIMIT = 8192
+
+function positive(value: unknown): number | undefined {
+    return typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : undefined
+}
+
+/**
+ * Resolve the context and output limits for a model.
+ * The runtime context from /props wins over the training context from /v1/models,
+ * since the server may run with a smaller (or larger) context than the model was trained on.
+ */
+export function resolveModelLimit(meta?: LlamaCppModelMeta, props?: LlamaCppProps | null): ModelLimit | undefined {
+    const context = positive(props?.default_generation_settings?.n_ctx)
+        ?? positive(props?.n_ctx)
+        ?? positive(meta?.n_ctx_train)
+
+    if (!context) {
+        return undefined
+    }
+
+    // n_predict of -1 (the llama-server default) means "until context is full"
+    const nPredict = positive(props?.default_generation_settings?.params?.n_predict)
+    return {
+        context,
+        output: nPredict ? Math.min(nPredict, context) : Math.min(Math.floor(context / 4), DEFAULT_OUTPUT_LIMIT)
+    }
+}
+
+/**
+ * Resolve the modalities for a model from its resolved capabilities.
+ * Image and audio input are only advertised when the server (or, as a last resort, the name) says so.
+ */
+export function resolveModelModalities(capabilities: ModelCapabilities): ModelModalities | undefined {
+    if (capabilities.type === 'embedding') {
+        return {
+            input: ["text"],
+            output: ["embedding"]
+        }
+    }
+
+    if (capabilities.type === 'unknown') {
+        return undefined
+    }
+
+    const input: ModelModality[] = ["text"]
+    if (capabilities.vision) {
+        input.push("image")
+    }
+    if (capabilities.audio) {
+        input.push("audio")
+    }
+    return {input, output: ["text"]}
+}
@@ -0,0 +1,50 @@
+import type {LlamaCppMetrics} from '../types'
+
+// Map llama-server metric names to LlamaCppMetrics fields
+const LLAMA_CPP_METRICS: Record<string, keyof Omit<LlamaCppMetrics, 'timestamp'>> = {
+    'llamacpp:prompt_tokens_total': 'promptTokensTotal',
+    'llamacpp:prompt_seconds_total': 'promptSecondsTotal',
+    'llamacpp:tokens_predicted_total': 'predictedTokensTotal',
+    'llamacpp:tokens_predicted_seconds_total': 'predictedSecondsTotal',
+    'llamacpp:prompt_tokens_seconds': 'promptTokensPerSecond',
+    'llamacpp:predicted_tokens_seconds': 'predictedTokensPerSecond',
+    'llamacpp:kv_cache_usage_ratio': 'kvCacheUsageRatio',
+    'llamacpp:kv_cache_tokens': 'kvCacheTokens',
+    'llamacpp:requests_processing': 'requestsProcessing',
+    'llamacpp:requests_deferred': 'requestsDeferred',
+}
+
+// Parse the Prometheus text exposition format into name/value pairs (labels are ignored)
+export function parsePrometheusText(text: string): Map<string, number> {
+    const values = new Map<string, number>()
+    for (const rawLine of text.split('\n')) {
+        const line = rawLine.trim()
+        if (!line || line.startsWith('#')) {
+            continue
+        }
+
+        const match = /^([a-zA-Z_:][a-zA-Z0-9_:]*)(?:\{[^}]*\})?\s+(\S+)/.exec(line)
+        if (!match) {
+            continue
+        }
+
+        const value = Number(match[2])
+        if (!Number.isNaN(value)) {
+            values.set(match[1], value)
+        }
+    }
+    return values
+}
+
+// Extract the llama.cpp metrics we track from a /metrics response body
+export function parseLlamaCppMetrics(text: string, timestamp: number = Date.now()): LlamaCppMetrics {
+    const values = parsePrometheusText(text)
+    const metrics: LlamaCppMetrics = {timestamp}
+    for (const [name, field] of Object.entries(LLAMA_CPP_METRICS)) {
+        const value = values.get(name)
+        if (value !== undefined) {
+            metrics[field] = value
+        }
+    }
+    return metrics
+}
@@ -0,0 +1,38 @@
+import {resolveModelAgentProfile} from './model-agent-profiles'
+import type {ReasoningAgentProfile, ReasoningConfig, ReasoningModelProfile} from '../types'
+
+export interface ReasoningProfile extends ReasoningModelProfile, ReasoningAgentProfile {}
+
+// Resolve the reasoning profile for a model and agent; chat template kwargs of both are combined
+export function resolveReasoningProfile(config: ReasoningConfig | undefined, modelId: string, agent?: string): ReasoningProfile | undefined {
+    return resolveModelAgentProfile<ReasoningProfile>(config, modelId, agent, (profile, agentProfile) => ({
+        ...profile,
+        ...agentProfile,
+        chatTemplateKwargs: {...profile?.chatTemplateKwargs, ...agentProfile.chatTemplateKwargs}
+    }))
+}
+
+// Write a reasoning profile into chat.params output as llama-server request fields
+// A budget of 0 also switches thinking off in the template, unless the agent asks for it explicitly
+export function applyReasoningProfile(output: any, profile: ReasoningProfile): void {
+    if (!output.options) {
+        output.options = {}
+    }
+
+    if (profile.format !== undefined) {
+        output.options.reasoning_format = profile.format
+    }
+    if (profile.budget !== undefined) {
+        output.options.reasoning_budget = profile.budget
+    }
+
+    const enableThinking = profile.enableThinking ?? (profile.budget === 0 ? false : undefined)
+    const kwargs = {
+        ...output.options.chat_template_kwargs,
+        ...profile.chatTemplateKwargs,
+        ...(enableThinking !== undefined ? {enable_thinking: enableThinking} : {})
+    }
+    if (Object.keys(kwargs).length > 0) {
+        output.options.chat_template_kwargs = kwargs
+    }
+}
@@ -0,0 +1,27 @@
+import {resolveModelAgentProfile} from './model-agent-profiles'
+import type {SamplingConfig, SamplingProfile} from '../types'
+
+const OUTPUT_FIELDS = new Set(['temperature', 'topP', 'topK'])
+
+// Resolve the sampling profile for a model and agent
+export function resolveSamplingProfile(config: SamplingConfig | undefined, modelId: string, agent?: string): SamplingProfile | undefined {
+    return resolveModelAgentProfile(config, modelId, agent)
+}
+
+// Write a sampling profile into chat.params output
+export function applySamplingProfile(output: any, profile: SamplingProfile): void {
+    if (!output.options) {
+        output.options = {}
+    }
+
+    for (const [key, value] of Object.entries(profile)) {
+        if (value === undefined) {
+            continue
+        }
+        if (OUTPUT_FIELDS.has(key)) {
+            output[key] = value
+        } else {
+            output.options[key] = value
+        }
+    }
+}
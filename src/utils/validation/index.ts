@@ -1,7 +1,18 @@
 export type {ValidationResult} from './validation-result'
 export {validateConfig} from './validate-config'
 export {validateHookInput} from './validate-hook-input'
-export {validateLlamaCppResponse} from './validate-llama-cpp-response'
+export {
+    validateChatCompletionResponse,
+    validateDetokenizeResponse,
+    validateEmbeddingsResponse,
+    validateInfillResponse,
+    validateLlamaCppResponse,
+    validateLoraAdaptersResponse,
+    validateNativeEmbeddingsResponse,
+    validatePropsResponse,
+    validateSlotsResponse,
+    validateTokenizeResponse
+} from './validate-llama-cpp-response'
 export {isPluginHookInput, isLlamaCppProvider, isValidModel} from './type-guards'
 export {safeJSONParse, safeAsyncOperation} from './safe-operations'
 
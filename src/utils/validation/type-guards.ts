@@ -1,3 +1,5 @@
+import {isLlamaCppProviderID} from '../llama-cpp-servers'
+
 export function isPluginHookInput(input: any): input is {
     sessionID?: string;
     agent?: string;
@@ -13,7 +15,8 @@ export function isLlamaCppProvider(provider: any): boolean {
     return provider &&
         typeof provider === 'object' &&
         provider.info &&
-        provider.info.id === 'llama.cpp'
+        typeof provider.info.id === 'string' &&
+        isLlamaCppProviderID(provider.info.id)
 }
 
 export function isValidModel(model: any): model is { id: string; [key: string]: any } {
@@ -1,5 +1,13 @@
+import {existsSync, readFileSync} from 'fs'
+import {parsePortList} from '../auto-detect'
+import {resolveGrammarPath} from '../grammar-profiles'
+import {isLlamaCppProviderID} from '../llama-cpp-servers'
 import type {ValidationResult} from './validation-result'
 
+const REASONING_FORMATS = ['auto', 'deepseek', 'deepseek-legacy', 'none']
+const LOG_LEVELS = ['debug', 'info', 'warn', 'error', 'silent']
+const CALL_TYPES = ['status', 'tokenize', 'embedding', 'completion', 'probe', 'admin']
+
 export function validateConfig(config: any): ValidationResult {
     const errors: string[] = []
     const warnings: string[] = []
@@ -11,29 +19,10 @@ export function validateConfig(config: any): ValidationResult {
 
     // Validate provider configuration
     if (config.provider && typeof config.provider === 'object') {
-        const llamaCpp = config.provider['llama.cpp']
-        if (llamaCpp) {
-            if (!llamaCpp.npm) {
-                llamaCpp.npm = "@ai-sdk/openai-compatible"
-                warnings.push('llama.cpp provider missing npm field, auto-set to @ai-sdk/openai-compatible')
-            }
-            if (!llamaCpp.name) {
-                llamaCpp.name = "llama.cpp (local)"
-                warnings.push('llama.cpp provider missing name field, auto-set to "llama.cpp (local)"')
-            }
-            if (!llamaCpp.options) {
-                llamaCpp.options = {}
-                warnings.push('llama.cpp provider missing options field, auto-created empty options')
-                if (!llamaCpp.options.baseURL) {
-                    warnings.push('llama.cpp provider missing baseURL, will use default')
-                } else if (typeof llamaCpp.options.baseURL !== 'string') {
-                    errors.push('llama.cpp provider baseURL must be a string')
-                } else if (!isValidURL(llamaCpp.options.baseURL)) {
-                    warnings.push('llama.cpp provider baseURL may be invalid')
-                }
-            }
-            if (llamaCpp.models && typeof llamaCpp.models !== 'object') {
-                errors.push('llama.cpp provider models must be an object')
+        for (const providerID of Object.keys(config.provider).filter(isLlamaCppProviderID)) {
+            const llamaCpp = config.provider[providerID]
+            if (llamaCpp) {
+                validateLlamaCppProvider(providerID, llamaCpp, errors, warnings)
             }
         }
     }
@@ -45,6 +34,295 @@ export function validateConfig(config: any): ValidationResult {
     }
 }
 
+function validateLlamaCppProvider(providerID: string, llamaCpp: any, errors: string[], warnings: string[]): void {
+    if (!llamaCpp.npm) {
+        llamaCpp.npm = "@ai-sdk/openai-compatible"
+        warnings.push(`${providerID} provider missing npm field, auto-set to @ai-sdk/openai-compatible`)
+    }
+    if (!llamaCpp.name) {
+        llamaCpp.name = "llama.cpp (local)"
+        warnings.push(`${providerID} provider missing name field, auto-set to "llama.cpp (local)"`)
+    }
+    if (!llamaCpp.options) {
+        llamaCpp.options = {}
+        warnings.push(`${providerID} provider missing options field, auto-created empty options`)
+        if (!llamaCpp.options.baseURL) {
+            warnings.push(`${providerID} provider missing baseURL, will use default`)
+        } else if (typeof llamaCpp.options.baseURL !== 'string') {
+            errors.push(`${providerID} provider baseURL must be a string`)
+        } else if (!isValidURL(llamaCpp.options.baseURL)) {
+            warnings.push(`${providerID} provider baseURL may be invalid`)
+        }
+    }
+    if (llamaCpp.options.servers !== undefined) {
+        if (!Array.isArray(llamaCpp.options.servers)) {
+            errors.push(`${providerID} provider servers must be an array`)
+        } else {
+            llamaCpp.options.servers.forEach((server: any, index: number) => {
+                const baseURL = typeof server === 'string' ? server : server?.baseURL
+                if (typeof baseURL !== 'string') {
+                    errors.push(`${providerID} provider server at index ${index} must be a URL string or an object with a baseURL`)
+                } else if (!isValidURL(baseURL)) {
+                    warnings.push(`${providerID} provider server at index ${index} has an invalid baseURL`)
+                }
+            })
+        }
+    }
+    if (llamaCpp.options.autoDetect !== undefined) {
+        validateAutoDetectConfig(providerID, llamaCpp.options.autoDetect, errors, warnings)
+    }
+    if (llamaCpp.options.autoLoad !== undefined && typeof llamaCpp.options.autoLoad !== 'boolean') {
+        warnings.push(`${providerID} provider autoLoad should be a boolean, on-demand loading stays disabled`)
+    }
+    if (llamaCpp.options.refreshOnModelChange !== undefined && typeof llamaCpp.options.refreshOnModelChange !== 'boolean') {
+        warnings.push(`${providerID} provider refreshOnModelChange should be a boolean, config refresh stays disabled`)
+    }
+    if (llamaCpp.options.loraScales !== undefined &&
+        (!Array.isArray(llamaCpp.options.loraScales) ||
+            llamaCpp.options.loraScales.some((scale: any) => typeof scale !== 'number' || scale <= 0))) {
+        warnings.push(`${providerID} provider loraScales should be a list of positive numbers, only scale 1 is offered`)
+    }
+    if (llamaCpp.options.toolAgents !== undefined &&
+        (!Array.isArray(llamaCpp.options.toolAgents) || llamaCpp.options.toolAgents.some((agent: any) => typeof agent !== 'string'))) {
+        warnings.push(`${providerID} provider toolAgents should be a list of agent names, the default agents are checked`)
+    }
+    for (const key of ['loadPollInterval', 'loadTimeout']) {
+        const value = llamaCpp.options[key]
+        if (value !== undefined && (typeof value !== 'number' || value <= 0)) {
+            errors.push(`${providerID} provider ${key} must be a positive number of milliseconds`)
+        }
+    }
+    if (llamaCpp.options.timeouts !== undefined) {
+        validateTimeoutsConfig(providerID, llamaCpp.options.timeouts, errors, warnings)
+    }
+    if (llamaCpp.options.headers !== undefined &&
+        (!llamaCpp.options.headers || typeof llamaCpp.options.headers !== 'object' || Array.isArray(llamaCpp.options.headers) ||
+            Object.values(llamaCpp.options.headers).some(value => typeof value !== 'string'))) {
+        errors.push(`${providerID} provider headers must be an object of header names to string values`)
+    }
+    if (llamaCpp.options.retries !== undefined &&
+        (typeof llamaCpp.options.retries !== 'number' || llamaCpp.options.retries < 0)) {
+        warnings.push(`${providerID} provider retries should be a number of 0 or more, requests are not retried`)
+    }
+    if (llamaCpp.options.retryDelay !== undefined &&
+        (typeof llamaCpp.options.retryDelay !== 'number' || llamaCpp.options.retryDelay <= 0)) {
+        errors.push(`${providerID} provider retryDelay must be a positive number of milliseconds`)
+    }
+    if (llamaCpp.options.sampling !== undefined) {
+        validateSamplingConfig(providerID, llamaCpp.options.sampling, errors, warnings)
+    }
+    if (llamaCpp.options.log !== undefined) {
+        validateLogConfig(providerID, llamaCpp.options.log, errors, warnings)
+    }
+    if (llamaCpp.options.reasoning !== undefined) {
+        validateReasoningConfig(providerID, llamaCpp.options.reasoning, errors, warnings)
+    }
+    if (llamaCpp.options.grammars !== undefined) {
+        validateGrammarConfig(providerID, llamaCpp.options.grammars, errors, warnings)
+    }
+    if (llamaCpp.models && typeof llamaCpp.models !== 'object') {
+        errors.push(`${providerID} provider models must be an object`)
+    }
+}
+
+function validateAutoDetectConfig(providerID: string, autoDetect: any, errors: string[], warnings: string[]): void {
+    if (autoDetect === true) {
+        return // Use the default hosts and ports
+    }
+    if (!autoDetect || typeof autoDetect !== 'object') {
+        errors.push(`${providerID} provider autoDetect must be true or an object`)
+        return
+    }
+    if (autoDetect.hosts !== undefined &&
+        (!Array.isArray(autoDetect.hosts) || autoDetect.hosts.some((host: any) => typeof host !== 'string'))) {
+        errors.push(`${providerID} provider autoDetect.hosts must be an array of host names`)
+    }
+    if (autoDetect.ports !== undefined) {
+        if (!Array.isArray(autoDetect.ports)) {
+            errors.push(`${providerID} provider autoDetect.ports must be an array of ports or "start-end" ranges`)
+        } else if (parsePortList(autoDetect.ports).length === 0) {
+            warnings.push(`${providerID} provider autoDetect.ports has no valid port, the default ports are used`)
+        }
+    }
+    if (autoDetect.timeout !== undefined && (typeof autoDetect.timeout !== 'number' || autoDetect.timeout <= 0)) {
+        errors.push(`${providerID} provider autoDetect.timeout must be a positive number of milliseconds`)
+    }
+}
+
+function validateSamplingConfig(providerID: string, sampling: any, errors: string[], warnings: string[]): void {
+    if (!sampling || typeof sampling !== 'object') {
+        errors.push(`${providerID} provider sampling must be an object`)
+        return
+    }
+
+    for (const section of ['models', 'agents']) {
+        const profiles = sampling[section]
+        if (profiles === undefined) {
+            continue
+        }
+        if (!profiles || typeof profiles !== 'object') {
+            errors.push(`${providerID} provider sampling.${section} must be an object`)
+            continue
+        }
+        for (const [name, profile] of Object.entries<any>(profiles)) {
+            if (!profile || typeof profile !== 'object') {
+                errors.push(`${providerID} provider sampling profile "${section}.${name}" must be an object`)
+                continue
+            }
+            for (const key of ['temperature', 'topP', 'topK']) {
+                if (profile[key] !== undefined && typeof profile[key] !== 'number') {
+                    warnings.push(`${providerID} provider sampling profile "${section}.${name}" ${key} should be a number`)
+                }
+            }
+        }
+    }
+}
+
+function validateTimeoutsConfig(providerID: string, timeouts: any, errors: string[], warnings: string[]): void {
+    if (!timeouts || typeof timeouts !== 'object' || Array.isArray(timeouts)) {
+        errors.push(`${providerID} provider timeouts must be an object`)
+        return
+    }
+    for (const [callType, timeout] of Object.entries(timeouts)) {
+        if (!CALL_TYPES.includes(callType)) {
+            warnings.push(`${providerID} provider timeouts.${callType} is not a call type (${CALL_TYPES.join(', ')}) and is ignored`)
+        } else if (typeof timeout !== 'number' || timeout <= 0) {
+            errors.push(`${providerID} provider timeouts.${callType} must be a positive number of milliseconds`)
+        }
+    }
+}
+
+function validateLogConfig(providerID: string, log: any, errors: string[], warnings: string[]): void {
+    if (!log || typeof log !== 'object') {
+        errors.push(`${providerID} provider log must be an object`)
+        return
+    }
+    if (log.level !== undefined && !LOG_LEVELS.includes(log.level)) {
+        warnings.push(`${providerID} provider log.level should be one of ${LOG_LEVELS.join(', ')}, "info" is used`)
+    }
+    if (log.json !== undefined && typeof log.json !== 'boolean') {
+        warnings.push(`${providerID} provider log.json should be a boolean`)
+    }
+    if (log.file !== undefined && (typeof log.file !== 'string' || log.file.length === 0)) {
+        errors.push(`${providerID} provider log.file must be a path string`)
+    }
+}
+
+function validateReasoningConfig(providerID: string, reasoning: any, errors: string[], warnings: string[]): void {
+    if (!reasoning || typeof reasoning !== 'object') {
+        errors.push(`${providerID} provider reasoning must be an object`)
+        return
+    }
+
+    for (const section of ['models', 'agents']) {
+        const profiles = reasoning[section]
+        if (profiles === undefined) {
+            continue
+        }
+        if (!profiles || typeof profiles !== 'object') {
+            errors.push(`${providerID} provider reasoning.${section} must be an object`)
+            continue
+        }
+        for (const [name, profile] of Object.entries<any>(profiles)) {
+            const prefix = `${providerID} provider reasoning profile "${section}.${name}"`
+            if (!profile || typeof profile !== 'object') {
+                errors.push(`${prefix} must be an object`)
+                continue
+            }
+            if (profile.format !== undefined && !REASONING_FORMATS.includes(profile.format)) {
+                warnings.push(`${prefix} format should be one of ${REASONING_FORMATS.join(', ')}`)
+            }
+            if (profile.budget !== undefined && (!Number.isInteger(profile.budget) || profile.budget < -1)) {
+                warnings.push(`${prefix} budget should be a token count, 0 to disable or -1 for no limit`)
+            }
+            if (profile.enableThinking !== undefined && typeof profile.enableThinking !== 'boolean') {
+                warnings.push(`${prefix} enableThinking should be a boolean`)
+            }
+            if (profile.chatTemplateKwargs !== undefined &&
+                (!profile.chatTemplateKwargs || typeof profile.chatTemplateKwargs !== 'object' || Array.isArray(profile.chatTemplateKwargs))) {
+                errors.push(`${prefix} chatTemplateKwargs must be an object`)
+            }
+        }
+    }
+}
+
+function validateGrammarConfig(providerID: string, grammars: any, errors: string[], warnings: string[]): void {
+    if (!grammars || typeof grammars !== 'object') {
+        errors.push(`${providerID} provider grammars must be an object`)
+        return
+    }
+
+    const profiles = grammars.profiles || {}
+    if (typeof profiles !== 'object') {
+        errors.push(`${providerID} provider grammars.profiles must be an object`)
+        return
+    }
+
+    const skipped = new Set<string>()
+    for (const [name, profile] of Object.entries<any>(profiles)) {
+        const prefix = `${providerID} provider grammar profile "${name}"`
+        if (!profile || typeof profile !== 'object') {
+            errors.push(`${prefix} must be an object`)
+            continue
+        }
+
+        const sources = ['grammar', 'file', 'jsonSchema'].filter(key => profile[key] !== undefined)
+        if (sources.length !== 1) {
+            errors.push(`${prefix} must set exactly one of grammar, file or jsonSchema`)
+            continue
+        }
+
+        if (profile.jsonSchema !== undefined && (typeof profile.jsonSchema !== 'object' || profile.jsonSchema === null)) {
+            errors.push(`${prefix} jsonSchema must be an object`)
+        } else if (profile.grammar !== undefined) {
+            validateGBNF(prefix, profile.grammar, errors)
+        } else if (profile.file !== undefined) {
+            if (typeof profile.file !== 'string') {
+                errors.push(`${prefix} file must be a path string`)
+                continue
+            }
+            // A broken file only costs that profile, not discovery for the whole provider
+            const path = resolveGrammarPath(profile.file)
+            if (!existsSync(path)) {
+                warnings.push(`${prefix} file not found, skipping profile: ${path}`)
+                skipped.add(name)
+                continue
+            }
+            try {
+                validateGBNF(prefix, readFileSync(path, 'utf8'), errors)
+            } catch (error) {
+                warnings.push(`${prefix} file could not be read, skipping profile: ${error instanceof Error ? error.message : String(error)}`)
+                skipped.add(name)
+            }
+        }
+    }
+
+    for (const name of skipped) {
+        delete profiles[name]
+    }
+
+    if (grammars.agents !== undefined) {
+        if (!grammars.agents || typeof grammars.agents !== 'object') {
+            errors.push(`${providerID} provider grammars.agents must be an object`)
+            return
+        }
+        for (const [agent, profileName] of Object.entries<any>(grammars.agents)) {
+            if (typeof profileName !== 'string' || (!profiles[profileName] && !skipped.has(profileName))) {
+                warnings.push(`${providerID} provider grammar for agent "${agent}" references unknown profile "${profileName}"`)
+            }
+        }
+    }
+}
+
+// llama-server rejects grammars without a root rule
+function validateGBNF(prefix: string, grammar: unknown, errors: string[]): void {
+    if (typeof grammar !== 'string' || grammar.trim().length === 0) {
+        errors.push(`${prefix} grammar must be a non-empty string`)
+    } else if (!/^\s*root\s*::=/m.test(grammar)) {
+        errors.push(`${prefix} grammar has no "root ::=" rule`)
+    }
+}
+
 function isValidURL(url: string): boolean {
     try {
         new URL(url)
@@ -29,3 +29,74 @@ export function validateLlamaCppResponse(data: any): ValidationResult {
     }
 }
 
+
+function toResult(errors: string[], warnings: string[] = []): ValidationResult {
+    return {isValid: errors.length === 0, errors, warnings}
+}
+
+function isObject(data: unknown): data is Record<string, any> {
+    return !!data && typeof data === 'object' && !Array.isArray(data)
+}
+
+// /props: an object; the fields the plugin reads must have the right type when present
+export function validatePropsResponse(data: any): ValidationResult {
+    if (!isObject(data)) {
+        return toResult(['expected an object'])
+    }
+    const errors: string[] = []
+    if (data.default_generation_settings !== undefined && !isObject(data.default_generation_settings)) {
+        errors.push('default_generation_settings must be an object')
+    }
+    if (data.chat_template !== undefined && typeof data.chat_template !== 'string') {
+        errors.push('chat_template must be a string')
+    }
+    return toResult(errors)
+}
+
+// /slots: one entry per slot with a numeric id
+export function validateSlotsResponse(data: any): ValidationResult {
+    if (!Array.isArray(data)) {
+        return toResult(['expected an array'])
+    }
+    return toResult(data.flatMap((slot: any, index: number) =>
+        isObject(slot) && typeof slot.id === 'number' ? [] : [`slot at index ${index} missing numeric id`]))
+}
+
+// /lora-adapters: the list of adapters; entries without id and path are skipped by the caller
+export function validateLoraAdaptersResponse(data: any): ValidationResult {
+    return toResult(Array.isArray(data) ? [] : ['expected an array'])
+}
+
+// /tokenize: token ids, or {id, piece} objects with with_pieces
+export function validateTokenizeResponse(data: any): ValidationResult {
+    return toResult(isObject(data) && Array.isArray(data.tokens) ? [] : ['missing tokens array'])
+}
+
+export function validateDetokenizeResponse(data: any): ValidationResult {
+    if (!isObject(data)) {
+        return toResult(['expected an object'])
+    }
+    return toResult([], typeof data.content === 'string' ? [] : ['missing content'])
+}
+
+// /v1/embeddings: OpenAI-style {data: [{index, embedding}]}
+export function validateEmbeddingsResponse(data: any): ValidationResult {
+    return toResult(isObject(data) && Array.isArray(data.data) ? [] : ['missing data array'])
+}
+
+// /embedding: one item per input
+export function validateNativeEmbeddingsResponse(data: any): ValidationResult {
+    return toResult(Array.isArray(data) ? [] : ['expected an array'])
+}
+
+export function validateInfillResponse(data: any): ValidationResult {
+    return toResult(isObject(data) && typeof data.content === 'string' ? [] : ['missing content'])
+}
+
+// /v1/chat/completions: a completion without choices is still an answer, the caller reads what is there
+export function validateChatCompletionResponse(data: any): ValidationResult {
+    if (!isObject(data)) {
+        return toResult(['expected an object'])
+    }
+    return toResult([], Array.isArray(data.choices) ? [] : ['missing choices array'])
+}
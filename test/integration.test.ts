@@ -0,0 +1,337 @@
+import {afterEach, beforeEach, describe, expect, it, vi} from 'vitest'
+import {mkdtempSync} from 'fs'
+import {tmpdir} from 'os'
+import {join} from 'path'
+import {LlamaCppPlugin} from '../src'
+import {categorizeError} from '../src/utils'
+import {LlamaCppClient, LlamaCppError} from '../src/utils/llama-cpp-api'
+import {MockLlamaServer, type MockLlamaServerOptions} from './support/mock-llama-server'
+
+// The whole plugin against an in-process llama-server over real HTTP; only the OpenCode client is mocked
+describe('Integration with a mock llama-server', () => {
+    let mockClient: any
+    let pluginHooks: any
+    let servers: MockLlamaServer[]
+
+    async function startServer(options: MockLlamaServerOptions = {}): Promise<MockLlamaServer> {
+        const server = await MockLlamaServer.start(options)
+        servers.push(server)
+        return server
+    }
+
+    function providerConfig(baseURL: string, options: Record<string, unknown> = {}): any {
+        return {
+            provider: {
+                'llama.cpp': {
+                    npm: '@ai-sdk/openai-compatible',
+                    name: 'llama.cpp (local)',
+                    options: {baseURL: `${baseURL}/v1`, ...options}
+                }
+            }
+        }
+    }
+
+    function chatInput(modelId: string, baseURL: string, options: Record<string, unknown> = {}): any {
+        return {
+            sessionID: 'integration-session',
+            model: {id: modelId},
+            provider: {
+                info: {id: 'llama.cpp'},
+                options: {baseURL: `${baseURL}/v1`, ...options}
+            }
+        }
+    }
+
+    function toastTitles(): string[] {
+        return mockClient.tui.showToast.mock.calls.map((call: any[]) => call[0].body.title)
+    }
+
+    beforeEach(async () => {
+        servers = []
+        process.env.OPENCODE_LLAMA_CPP_CACHE_DIR = mkdtempSync(join(tmpdir(), 'llama-cache-'))
+        vi.spyOn(console, 'info').mockImplementation(() => {
+        })
+        vi.spyOn(console, 'warn').mockImplementation(() => {
+        })
+
+        mockClient = {
+            tui: {
+                showToast: vi.fn().mockResolvedValue(true)
+            },
+            instance: {
+                dispose: vi.fn().mockResolvedValue(true)
+            }
+        }
+        const mockInput: any = {
+            client: mockClient,
+            project: {id: 'test-project', name: 'test', path: '/tmp', worktree: '', time: {created: Date.now()}},
+            directory: '/tmp',
+            worktree: '',
+            $: vi.fn()
+        }
+        pluginHooks = await LlamaCppPlugin(mockInput)
+    })
+
+    afterEach(async () => {
+        await Promise.all(servers.map(server => server.stop()))
+        vi.restoreAllMocks()
+    })
+
+    it('should discover models with their context size and tool support', async () => {
+        const server = await startServer({models: ['qwen2.5-7b-instruct'], contextSize: 16384})
+        const config = providerConfig(server.baseURL)
+
+        await pluginHooks.config(config)
+
+        expect(config.provider['llama.cpp'].models['qwen2_5-7b-instruct']).toEqual(expect.objectContaining({
+            id: 'qwen2.5-7b-instruct',
+            limit: expect.objectContaining({context: 16384}),
+            tool_call: true
+        }))
+        expect(server.requestsTo('/props')).toHaveLength(1)
+    })
+
+    it('should auto-detect a server that needs the provider\'s API key and headers', async () => {
+        const server = await startServer({models: ['secured-model'], apiKey: 'secret-key', protectAll: true})
+        const port = Number(new URL(server.baseURL).port)
+        const config: any = {
+            provider: {
+                'llama.cpp': {
+                    npm: '@ai-sdk/openai-compatible',
+                    options: {apiKey: 'secret-key', headers: {'X-Proxy-Token': 'proxy'}, autoDetect: {hosts: ['127.0.0.1'], ports: [port]}}
+                }
+            }
+        }
+
+        await pluginHooks.config(config)
+
+        expect(config.provider['llama.cpp'].options.baseURL).toBe(`${server.baseURL}/v1`)
+        expect(server.requests[0]).toEqual(expect.objectContaining({
+            path: '/v1/models',
+            authorization: 'Bearer secret-key',
+            headers: expect.objectContaining({'x-proxy-token': 'proxy'})
+        }))
+    })
+
+    it('should only read /props of loaded models in router mode', async () => {
+        const server = await startServer({
+            models: [{id: 'router-loaded', status: 'loaded', contextSize: 16384}, 'router-idle-a', 'router-idle-b'],
+            router: true
+        })
+        const config = providerConfig(server.baseURL)
+
+        await pluginHooks.config(config)
+
+        // /props?model= would load an idle model; those take their context from the model meta
+        expect(server.requestsTo('/props')).toHaveLength(1)
+        expect(config.provider['llama.cpp'].models['router-loaded'].limit.context).toBe(16384)
+        expect(config.provider['llama.cpp'].models['router-idle-a'].limit.context).toBe(32768)
+    })
+
+    it('should validate a loaded model with slots and throughput', async () => {
+        const server = await startServer({models: ['busy-model'], totalSlots: 2, busySlots: 1, metrics: true})
+        const output: any = {}
+
+        await pluginHooks['chat.params'](chatInput('busy-model', server.baseURL), output)
+
+        expect(output.options.llamaCppValidation).toEqual(expect.objectContaining({
+            status: 'success',
+            model: 'busy-model',
+            slots: {total: 2, idle: 1, busy: 1},
+            circuit: expect.objectContaining({state: 'closed'})
+        }))
+        expect(output.options.llamaCppValidation.performanceHint).toEqual(expect.stringContaining('tok/s'))
+        expect(toastTitles()).toContain('Model Validated')
+        expect(toastTitles()).not.toContain('Server Busy')
+    })
+
+    it('should reuse the slot state and metrics of a server between chat.params calls', async () => {
+        const server = await startServer({models: ['busy-model'], totalSlots: 2, busySlots: 1, metrics: true})
+
+        for (const sessionID of ['s1', 's2']) {
+            const output: any = {}
+            await pluginHooks['chat.params']({...chatInput('busy-model', server.baseURL), sessionID}, output)
+            expect(output.options.llamaCppValidation.slots).toEqual({total: 2, idle: 1, busy: 1})
+        }
+
+        expect(server.requestsTo('/health')).toHaveLength(1)
+        expect(server.requestsTo('/slots')).toHaveLength(1)
+        expect(server.requestsTo('/metrics')).toHaveLength(1)
+    })
+
+    it('should send the API key to a server that requires one', async () => {
+        const server = await startServer({models: ['secured-model'], apiKey: 'secret-key', contextSize: 8192})
+        const config = providerConfig(server.baseURL, {apiKey: 'secret-key'})
+
+        await pluginHooks.config(config)
+
+        expect(config.provider['llama.cpp'].models['secured-model'].limit.context).toBe(8192)
+        expect(server.requests.length).toBeGreaterThan(0)
+        expect(server.requests.every(request => request.authorization === 'Bearer secret-key')).toBe(true)
+    })
+
+    it('should not read protected endpoints without the API key', async () => {
+        const server = await startServer({models: ['secured-model'], apiKey: 'secret-key', contextSize: 8192})
+        const config = providerConfig(server.baseURL)
+
+        await pluginHooks.config(config)
+
+        // /v1/models is public, /props answers 401 so the context size comes from the training context
+        expect(config.provider['llama.cpp'].models['secured-model'].limit.context).toBe(32768)
+        expect(server.requestsTo('/props')).toHaveLength(1)
+    })
+
+    it('should pick up models once a server that was still loading is ready', async () => {
+        const server = await startServer({models: ['late-model'], loading: true})
+        const config = providerConfig(server.baseURL, {refreshOnModelChange: true})
+
+        await pluginHooks.config(config)
+        expect(config.provider['llama.cpp'].models ?? {}).toEqual({})
+
+        server.setLoading(false)
+        await pluginHooks.event({event: {type: 'session.created', properties: {info: {id: 's1'}}}})
+
+        expect(Object.keys(config.provider['llama.cpp'].models)).toEqual(['late-model'])
+        expect(toastTitles()).toContain('Models Added')
+    })
+
+    it('should report added and removed models after a model swap', async () => {
+        const server = await startServer({models: ['first-model']})
+        const config = providerConfig(server.baseURL, {refreshOnModelChange: true})
+
+        await pluginHooks.config(config)
+        expect(Object.keys(config.provider['llama.cpp'].models)).toEqual(['first-model'])
+
+        server.setModels(['second-model'])
+        await pluginHooks.event({event: {type: 'session.created', properties: {info: {id: 's1'}}}})
+
+        expect(Object.keys(config.provider['llama.cpp'].models)).toEqual(['second-model'])
+        expect(toastTitles()).toEqual(expect.arrayContaining(['Models Added', 'Models Removed']))
+        expect(mockClient.instance.dispose).toHaveBeenCalledTimes(1)
+    })
+
+    it('should not report configured models the server does not serve as removed', async () => {
+        const server = await startServer({models: ['served-model']})
+        const config = providerConfig(server.baseURL, {refreshOnModelChange: true})
+        config.provider['llama.cpp'].models = {'my-alias': {id: 'my-alias', name: 'My Alias'}}
+
+        await pluginHooks.config(config)
+        await pluginHooks.event({event: {type: 'session.created', properties: {info: {id: 's1'}}}})
+
+        expect(Object.keys(config.provider['llama.cpp'].models).sort()).toEqual(['my-alias', 'served-model'])
+        expect(toastTitles()).not.toContain('Models Removed')
+        expect(toastTitles()).not.toContain('Models Added')
+        expect(mockClient.instance.dispose).not.toHaveBeenCalled()
+    })
+
+    it('should keep the client settings of each plugin instance apart', async () => {
+        const server = await startServer({models: ['shared-model']})
+        const other = await LlamaCppPlugin({client: mockClient, directory: '/tmp', worktree: '', $: vi.fn()} as any)
+
+        await pluginHooks.config(providerConfig(server.baseURL, {headers: {'X-Proxy-Token': 'first'}}))
+        const requestCount = server.requests.length
+        await other['chat.params'](chatInput('shared-model', server.baseURL), {})
+
+        // The first instance's capability probes (/tokenize) may still run in the background
+        const otherRequests = server.requests.slice(requestCount).filter(request => request.path !== '/tokenize')
+        expect(otherRequests.length).toBeGreaterThan(0)
+        expect(otherRequests.every(request => request.headers['x-proxy-token'] === undefined)).toBe(true)
+    })
+
+    it('should load a model on demand in router mode and wait for the slow load', async () => {
+        const server = await startServer({models: ['router-a', 'router-b'], router: true, loadDelay: 200})
+        const output: any = {}
+
+        await pluginHooks['chat.params'](chatInput('router-b', server.baseURL, {autoLoad: true, loadPollInterval: 25}), output)
+
+        expect(server.requestsTo('/models/load').map(request => request.body)).toEqual([{model: 'router-b'}])
+        expect(output.options.llamaCppValidation).toEqual(expect.objectContaining({
+            status: 'success',
+            model: 'router-b',
+            availableModels: ['router-b']
+        }))
+    })
+
+    it('should report a model that does not finish loading as loading, not as an offline server', async () => {
+        const server = await startServer({models: ['router-slow'], router: true, loadDelay: 5000})
+        const output: any = {}
+
+        await pluginHooks['chat.params'](chatInput('router-slow', server.baseURL, {autoLoad: true, loadPollInterval: 25, loadTimeout: 100}), output)
+
+        expect(output.options.llamaCppValidation).toEqual(expect.objectContaining({
+            status: 'error',
+            errorCategory: 'loading',
+            circuit: expect.objectContaining({state: 'closed'})
+        }))
+        expect(toastTitles()).not.toContain('Server Offline')
+    })
+
+    it('should fail validation while the server answers 503 loading', async () => {
+        const server = await startServer({models: ['warming-model'], loading: true})
+        const output: any = {}
+
+        await pluginHooks['chat.params'](chatInput('warming-model', server.baseURL), output)
+
+        expect(output.options.llamaCppValidation).toEqual(expect.objectContaining({
+            status: 'error',
+            model: 'warming-model',
+            errorCategory: 'loading',
+            circuit: expect.objectContaining({state: 'closed'})
+        }))
+        expect(toastTitles()).toContain('Model Validation Failed')
+    })
+
+    it('should report a permission error when the model list needs an API key', async () => {
+        const server = await startServer({models: ['secured-model'], apiKey: 'secret-key', protectAll: true})
+        const output: any = {}
+
+        await pluginHooks['chat.params'](chatInput('secured-model', server.baseURL), output)
+
+        expect(output.options.llamaCppValidation).toEqual(expect.objectContaining({
+            status: 'error',
+            errorCategory: 'permission',
+            circuit: expect.objectContaining({state: 'closed'})
+        }))
+        // Not retried: another attempt gets the same 401
+        expect(server.requestsTo('/v1/models')).toHaveLength(1)
+    })
+
+    it('should fail fast once the server stops answering', async () => {
+        const server = await startServer({models: ['flaky-model']})
+        const input = chatInput('flaky-model', server.baseURL)
+        await server.stop()
+
+        const first: any = {}
+        await pluginHooks['chat.params'](input, first)
+        expect(first.options.llamaCppValidation).toEqual(expect.objectContaining({
+            status: 'error',
+            errorCategory: 'offline',
+            circuit: expect.objectContaining({state: 'open'})
+        }))
+
+        const second: any = {}
+        await pluginHooks['chat.params'](input, second)
+        expect(second.options.llamaCppValidation.status).toBe('error')
+        expect(toastTitles().filter(title => title === 'Server Offline')).toHaveLength(1)
+    })
+
+    it('should report typed errors from the client', async () => {
+        const server = await startServer({models: ['secured-model'], apiKey: 'secret-key'})
+        const context = {baseURL: server.baseURL, modelId: 'secured-model'}
+
+        const client = new LlamaCppClient(server.baseURL, {apiKey: 'secret-key', headers: {'X-Request-Source': 'opencode'}})
+        expect(await client.getProps()).toEqual(expect.objectContaining({build_info: 'b0000-mock'}))
+        expect(server.requestsTo('/props')[0].headers['x-request-source']).toBe('opencode')
+
+        const unauthorized = await new LlamaCppClient(server.baseURL).getSlots().catch(error => error)
+        expect(unauthorized).toBeInstanceOf(LlamaCppError)
+        expect(unauthorized).toEqual(expect.objectContaining({kind: 'http', status: 401, serverMessage: 'Invalid API Key'}))
+        expect(categorizeError(unauthorized, context).type).toBe('permission')
+
+        await server.stop()
+        const offline = await client.listModels().catch(error => error)
+        expect(offline).toEqual(expect.objectContaining({kind: 'network', endpoint: '/v1/models'}))
+        expect(offline.cause).toBeInstanceOf(Error)
+        expect(categorizeError(offline, context).type).toBe('offline')
+    })
+})
@@ -1,5 +1,14 @@
 import {afterEach, beforeEach, describe, expect, it, vi} from 'vitest'
+import {mkdtempSync, readFileSync, writeFileSync} from 'fs'
+import {tmpdir} from 'os'
+import {join} from 'path'
 import {LlamaCppPlugin} from '../src'
+import {ModelStatusCache} from '../src/cache/model-status-cache'
+import {CircuitBreaker} from '../src/monitoring/circuit-breaker'
+import {ModelLoadingMonitor} from '../src/monitoring/loading-monitor'
+import {embedLlamaCpp, infillLlamaCpp, LlamaCppClient, LlamaCppError, probeLlamaCppToolCalling} from '../src/utils/llama-cpp-api'
+import {categorizeError} from '../src/utils'
+import {Logger, resolveLogOptions} from '../src/utils/logger'
 
 // Mock fetch globally
 const mockFetch = vi.fn()
@@ -20,7 +29,10 @@ describe('Llama.cpp Plugin', () => {
 
     beforeEach(async () => {
         // Reset fetch mock
-        mockFetch.mockClear()
+        mockFetch.mockReset()
+
+        // Keep the discovery cache of each test apart from the others and from the real user cache
+        process.env.OPENCODE_LLAMA_CPP_CACHE_DIR = mkdtempSync(join(tmpdir(), 'llama-cache-'))
 
         // Mock client
         mockClient = {
@@ -123,20 +135,20 @@ describe('Llama.cpp Plugin', () => {
         })
 
         it('should auto-detect llama.cpp when not configured', async () => {
-            // Mock successful health check on default port
-            mockFetch.mockResolvedValueOnce({
-                ok: true
-            })
-
-            // Mock models response
-            mockFetch.mockResolvedValueOnce({
-                ok: true,
-                json: async () => ({
-                    data: [
-                        {id: 'test-model-1', object: 'model', created: 1234567890, owned_by: 'local'},
-                        {id: 'test-model-2', object: 'model', created: 1234567890, owned_by: 'local'}
-                    ]
-                })
+            // Only the default port answers, and it identifies as llama-server
+            mockFetch.mockImplementation(async (url: string) => {
+                if (!url.startsWith('http://127.0.0.1:1234/')) {
+                    throw new Error('ECONNREFUSED')
+                }
+                return {
+                    ok: true,
+                    json: async () => ({
+                        data: [
+                            {id: 'test-model-1', object: 'model', created: 1234567890, owned_by: 'llamacpp'},
+                            {id: 'test-model-2', object: 'model', created: 1234567890, owned_by: 'llamacpp'}
+                        ]
+                    })
+                }
             })
 
             const config: any = {}
@@ -147,6 +159,73 @@ describe('Llama.cpp Plugin', () => {
             expect(config.provider?.['llama.cpp']?.options?.baseURL).toBe('http://127.0.0.1:1234/v1')
         })
 
+        it('should fingerprint servers on the configured hosts and ports and skip other OpenAI-compatible servers', async () => {
+            mockFetch.mockImplementation(async (url: string) => {
+                const {port, pathname} = new URL(url)
+                if (port === '9001') {
+                    // LM Studio style server: OpenAI models list but no llama.cpp endpoints
+                    if (pathname === '/v1/models') {
+                        return {ok: true, status: 200, json: async () => ({data: [{id: 'other', owned_by: 'organization_owner'}]})}
+                    }
+                    return {ok: false, status: 404, json: async () => ({error: 'Unexpected endpoint'})}
+                }
+                if (port === '9003') {
+                    if (pathname === '/props') {
+                        return {ok: true, status: 200, json: async () => ({total_slots: 1, build_info: 'b6500-abc123'})}
+                    }
+                    return {ok: true, status: 200, json: async () => ({data: [{id: 'gguf-model', owned_by: 'local'}]})}
+                }
+                throw new Error('ECONNREFUSED')
+            })
+
+            const config: any = {
+                provider: {
+                    'llama.cpp': {
+                        npm: '@ai-sdk/openai-compatible',
+                        name: 'llama.cpp (local)',
+                        options: {autoDetect: {hosts: ['127.0.0.1'], ports: ['9001-9003']}, autoLoad: true}
+                    }
+                }
+            }
+            await pluginHooks.config(config)
+
+            const llamaCpp = config.provider['llama.cpp']
+            expect(llamaCpp.options.baseURL).toBe('http://127.0.0.1:9003/v1')
+            expect(llamaCpp.options.autoLoad).toBe(true)
+            expect(llamaCpp.options.autoDetect).toBeUndefined()
+            expect(Object.keys(config.provider)).toEqual(['llama.cpp'])
+            expect(mockFetch).not.toHaveBeenCalledWith(expect.stringContaining(':1234/'), expect.anything())
+        })
+
+        it('should probe candidates through the client with the detection timeout', async () => {
+            const timeoutSpy = vi.spyOn(AbortSignal, 'timeout')
+            mockFetch.mockImplementation(async (url: string) => {
+                const {port, pathname} = new URL(url)
+                if (port !== '9005') {
+                    throw new TypeError('fetch failed')
+                }
+                // vLLM style: /health answers 200 without llama-server's {"status": "ok"} body
+                if (pathname === '/health') {
+                    return {ok: true, status: 200, json: async () => ({})}
+                }
+                return {ok: false, status: 404, statusText: 'Not Found', json: async () => ({detail: 'Not Found'})}
+            })
+
+            const config: any = {
+                provider: {
+                    'llama.cpp': {
+                        npm: '@ai-sdk/openai-compatible',
+                        options: {autoDetect: {hosts: ['127.0.0.1'], ports: [9005], timeout: 700}}
+                    }
+                }
+            }
+            await pluginHooks.config(config)
+
+            expect(config.provider['llama.cpp'].options.baseURL).toBeUndefined()
+            expect(mockFetch.mock.calls.map(([url]) => new URL(url).pathname)).toEqual(['/v1/models', '/props', '/health'])
+            expect(timeoutSpy).toHaveBeenCalledWith(700)
+        })
+
         it('should merge discovered models with existing config', async () => {
             mockFetch.mockResolvedValue({
                 ok: true,
@@ -181,6 +260,266 @@ describe('Llama.cpp Plugin', () => {
             })
         })
 
+        it('should fill context limits and modalities from /props and model meta', async () => {
+            mockFetch.mockImplementation(async (url: string) => {
+                if (url.endsWith('/props')) {
+                    return {
+                        ok: true,
+                        json: async () => ({
+                            default_generation_settings: {n_ctx: 32768, params: {n_predict: -1}},
+                            chat_template: '{{ messages }}',
+                            modalities: {vision: false, audio: false}
+                        })
+                    }
+                }
+                return {
+                    ok: true,
+                    json: async () => ({
+                        data: [
+                            {
+                                id: 'granite-8b',
+                                object: 'model',
+                                created: 1234567890,
+                                owned_by: 'llamacpp',
+                                meta: {n_ctx_train: 131072}
+                            }
+                        ]
+                    })
+                }
+            })
+
+            const config: any = {
+                provider: {
+                    'llama.cpp': {
+                        npm: '@ai-sdk/openai-compatible',
+                        name: 'llama.cpp (local)',
+                        options: {baseURL: 'http://127.0.0.1:1234/v1'},
+                        models: {}
+                    }
+                }
+            }
+
+            await pluginHooks.config(config)
+
+            expect(config.provider['llama.cpp'].models['granite-8b']).toEqual(expect.objectContaining({
+                limit: {context: 32768, output: 8192},
+                modalities: {input: ['text'], output: ['text']}
+            }))
+        })
+
+        it('should restore models from the discovery cache when the server is offline', async () => {
+            mockFetch.mockResolvedValue({
+                ok: true,
+                json: async () => ({data: [{id: 'cached-model', object: 'model', created: 1, owned_by: 'llamacpp'}]})
+            })
+            const createConfig = (): any => ({
+                provider: {
+                    'llama.cpp': {
+                        npm: '@ai-sdk/openai-compatible',
+                        name: 'llama.cpp (local)',
+                        options: {baseURL: 'http://127.0.0.1:8088/v1'}
+                    }
+                }
+            })
+
+            await pluginHooks.config(createConfig())
+
+            const cacheFile = join(process.env.OPENCODE_LLAMA_CPP_CACHE_DIR!, 'discovery.json')
+            await vi.waitFor(() => {
+                const cached = JSON.parse(readFileSync(cacheFile, 'utf-8'))
+                expect(cached.servers['http://127.0.0.1:8088'].modelConfigs['cached-model']).toBeDefined()
+            })
+
+            // Next start: llama-server is not up yet
+            mockFetch.mockReset()
+            mockFetch.mockRejectedValue(new Error('ECONNREFUSED'))
+            const config = createConfig()
+            await pluginHooks.config(config)
+
+            expect(config.provider['llama.cpp'].models['cached-model']).toEqual(expect.objectContaining({id: 'cached-model'}))
+        })
+
+        it('should forget persisted servers that stopped answering', async () => {
+            mockFetch.mockRejectedValue(new Error('ECONNREFUSED'))
+            const cacheFile = join(process.env.OPENCODE_LLAMA_CPP_CACHE_DIR!, 'discovery.json')
+            const entry = (timestamp: number, offlineRevalidations?: number) => ({
+                models: ['cached-model'],
+                modelConfigs: {'cached-model': {id: 'cached-model', name: 'Cached Model'}},
+                timestamp,
+                offlineRevalidations
+            })
+            writeFileSync(cacheFile, JSON.stringify({
+                version: 1,
+                servers: {
+                    'http://127.0.0.1:8107': entry(Date.now() - 8 * 24 * 60 * 60 * 1000),
+                    'http://127.0.0.1:8108': entry(Date.now(), 2)
+                }
+            }))
+
+            // A week-old server is gone; the other one is restored, but this is its third offline start
+            const config: any = {}
+            await pluginHooks.config(config)
+            const restored = Object.values<any>(config.provider ?? {})
+            expect(restored.map(provider => provider.options.baseURL)).toEqual(['http://127.0.0.1:8108/v1'])
+            await vi.waitFor(() => {
+                const cached = JSON.parse(readFileSync(cacheFile, 'utf-8'))
+                expect(cached.servers['http://127.0.0.1:8108'].offlineRevalidations).toBe(3)
+            })
+
+            const nextConfig: any = {}
+            await pluginHooks.config(nextConfig)
+            expect(Object.keys(nextConfig.provider ?? {})).toEqual([])
+        })
+
+        it('should resolve capabilities from server metadata before falling back to the model name', async () => {
+            mockFetch.mockImplementation(async (url: string) => {
+                if (url.includes('/props?model=granite-3b')) {
+                    return {
+                        ok: true,
+                        json: async () => ({chat_template: '{{ messages }}', chat_template_caps: {supports_tool_calls: true}})
+                    }
+                }
+                if (url.includes('/props')) {
+                    return {ok: false, status: 404, json: async () => ({})}
+                }
+                return {
+                    ok: true,
+                    json: async () => ({
+                        data: [
+                            {id: 'granite-3b', object: 'model', created: 1, owned_by: 'llamacpp', status: {value: 'loaded', args: ['--mmproj', 'mmproj-granite.gguf']}},
+                            {id: 'bge-m3', object: 'model', created: 1, owned_by: 'llamacpp', status: {value: 'unloaded', args: ['--embeddings', '--pooling', 'cls']}},
+                            {id: 'qwen3-4b', object: 'model', created: 1, owned_by: 'llamacpp', status: {value: 'unloaded'}}
+                        ]
+                    })
+                }
+            })
+
+            const config: any = {
+                provider: {
+                    'llama.cpp': {
+                        npm: '@ai-sdk/openai-compatible',
+                        name: 'llama.cpp (local)',
+                        options: {baseURL: 'http://127.0.0.1:8094/v1'}
+                    }
+                }
+            }
+            await pluginHooks.config(config)
+
+            const models = config.provider['llama.cpp'].models
+            expect(models['granite-3b']).toEqual(expect.objectContaining({
+                modalities: {input: ['text', 'image'], output: ['text']},
+                tool_call: true
+            }))
+            expect(models['bge-m3'].modalities).toEqual({input: ['text'], output: ['embedding']})
+            // Nothing reported for this one, so the name decides and no image input is assumed
+            expect(models['qwen3-4b'].modalities).toEqual({input: ['text'], output: ['text']})
+            expect(models['qwen3-4b'].tool_call).toBeUndefined()
+        })
+
+        it('should register a provider per configured server', async () => {
+            mockFetch.mockImplementation(async (url: string) => {
+                const id = url.startsWith('http://192.168.1.20:8080') ? 'nomic-embed-text' : 'qwen3-8b'
+                return {
+                    ok: true,
+                    json: async () => ({
+                        data: [{id, object: 'model', created: 1234567890, owned_by: 'llamacpp'}]
+                    })
+                }
+            })
+
+            const config: any = {
+                provider: {
+                    'llama.cpp': {
+                        npm: '@ai-sdk/openai-compatible',
+                        name: 'llama.cpp (local)',
+                        options: {
+                            baseURL: 'http://127.0.0.1:1234/v1',
+                            servers: ['http://127.0.0.1:1234', 'http://192.168.1.20:8080/v1']
+                        },
+                        models: {}
+                    }
+                }
+            }
+
+            await pluginHooks.config(config)
+
+            expect(Object.keys(config.provider['llama.cpp'].models)).toEqual(['qwen3-8b'])
+            expect(config.provider['llama.cpp@192.168.1.20:8080']).toEqual(expect.objectContaining({
+                name: 'llama.cpp (192.168.1.20:8080)',
+                options: {baseURL: 'http://192.168.1.20:8080/v1'}
+            }))
+            expect(Object.keys(config.provider['llama.cpp@192.168.1.20:8080'].models)).toEqual(['nomic-embed-text'])
+        })
+
+        it('should send the configured API key as a bearer token', async () => {
+            mockFetch.mockResolvedValue({
+                ok: true,
+                json: async () => ({
+                    data: [{id: 'secure-model', object: 'model', created: 1234567890, owned_by: 'llamacpp'}]
+                })
+            })
+
+            const config: any = {
+                provider: {
+                    'llama.cpp': {
+                        npm: '@ai-sdk/openai-compatible',
+                        name: 'llama.cpp (local)',
+                        options: {baseURL: 'http://127.0.0.1:1234/v1', apiKey: 'secret-key'},
+                        models: {}
+                    }
+                }
+            }
+
+            await pluginHooks.config(config)
+
+            expect(mockFetch).toHaveBeenCalled()
+            for (const [, init] of mockFetch.mock.calls) {
+                expect(init.headers).toEqual(expect.objectContaining({Authorization: 'Bearer secret-key'}))
+            }
+            expect(config.provider['llama.cpp'].models['secure-model']).toBeDefined()
+        })
+
+        it('should skip grammar profiles pointing at missing files and keep discovering models', async () => {
+            mockFetch.mockResolvedValue({
+                ok: true,
+                json: async () => ({data: [{id: 'small-model', object: 'model', created: 1, owned_by: 'llamacpp'}]})
+            })
+            const consoleSpy = vi.spyOn(console, 'warn').mockImplementation(() => {
+            })
+
+            const config: any = {
+                provider: {
+                    'llama.cpp': {
+                        npm: '@ai-sdk/openai-compatible',
+                        name: 'llama.cpp (local)',
+                        options: {
+                            baseURL: 'http://127.0.0.1:8112/v1',
+                            grammars: {
+                                profiles: {json: {file: '/nonexistent/json.gbnf'}},
+                                agents: {build: 'json'}
+                            }
+                        },
+                        models: {}
+                    }
+                }
+            }
+
+            await pluginHooks.config(config)
+
+            expect(consoleSpy).toHaveBeenCalledWith('[opencode-llama-cpp] Config warnings:', [
+                expect.stringContaining('file not found, skipping profile')
+            ])
+            expect(config.provider['llama.cpp'].models['small-model']).toBeDefined()
+            expect(config.provider['llama.cpp'].options.grammars.profiles.json).toBeUndefined()
+
+            const provider = {info: {id: 'llama.cpp'}, options: config.provider['llama.cpp'].options}
+            const output: any = {options: {}}
+            await pluginHooks['chat.params']({sessionID: 's', agent: 'build', model: {id: 'small-model'}, provider}, output)
+            expect(output.options.grammar).toBeUndefined()
+
+            consoleSpy.mockRestore()
+        })
+
         it('should handle llama.cpp offline gracefully', async () => {
             mockFetch.mockRejectedValue(new Error('Connection refused'))
 
@@ -220,6 +559,92 @@ describe('Llama.cpp Plugin', () => {
             // Should not throw error
             expect(true).toBe(true)
         })
+
+        it('should re-discover models when a session starts and report changes', async () => {
+            let served = ['first-model']
+            mockFetch.mockImplementation(async () => ({
+                ok: true,
+                json: async () => ({data: served.map(id => ({id, object: 'model', created: 1, owned_by: 'llamacpp'}))})
+            }))
+            mockClient.instance = {dispose: vi.fn().mockResolvedValue(true)}
+
+            const config: any = {
+                provider: {
+                    'llama.cpp': {
+                        npm: '@ai-sdk/openai-compatible',
+                        name: 'llama.cpp (local)',
+                        options: {baseURL: 'http://127.0.0.1:8089/v1', refreshOnModelChange: true}
+                    }
+                }
+            }
+            await pluginHooks.config(config)
+            expect(Object.keys(config.provider['llama.cpp'].models)).toEqual(['first-model'])
+
+            served = ['first-model', 'second-model']
+            await pluginHooks.event({event: {type: 'session.created', properties: {info: {id: 's1'}}}})
+
+            expect(Object.keys(config.provider['llama.cpp'].models).sort()).toEqual(['first-model', 'second-model'])
+            expect(mockClient.tui.showToast).toHaveBeenCalledWith(expect.objectContaining({
+                body: expect.objectContaining({title: 'Models Added', message: expect.stringContaining('second-model')})
+            }))
+            expect(mockClient.instance.dispose).toHaveBeenCalledTimes(1)
+
+            served = ['second-model']
+            await pluginHooks.event({event: {type: 'session.created', properties: {info: {id: 's2'}}}})
+
+            expect(Object.keys(config.provider['llama.cpp'].models)).toEqual(['second-model'])
+            expect(mockClient.tui.showToast).toHaveBeenCalledWith(expect.objectContaining({
+                body: expect.objectContaining({title: 'Models Removed', message: expect.stringContaining('first-model')})
+            }))
+        })
+
+        it('should not report models as added while the first discovery is still running', async () => {
+            vi.useFakeTimers({toFake: ['setTimeout']})
+            let releaseProps = () => {
+            }
+            const propsPending = new Promise<void>(resolve => {
+                releaseProps = resolve
+            })
+            mockFetch.mockImplementation(async (url: string) => {
+                if (url.endsWith('/props')) {
+                    await propsPending
+                    return {ok: false, status: 404, json: async () => ({})}
+                }
+                return {
+                    ok: true,
+                    json: async () => ({data: [{id: 'slow-model', object: 'model', created: 1, owned_by: 'llamacpp'}]})
+                }
+            })
+            mockClient.instance = {dispose: vi.fn().mockResolvedValue(true)}
+
+            const config: any = {
+                provider: {
+                    'llama.cpp': {
+                        npm: '@ai-sdk/openai-compatible',
+                        name: 'llama.cpp (local)',
+                        options: {baseURL: 'http://127.0.0.1:8106/v1', refreshOnModelChange: true}
+                    }
+                }
+            }
+            try {
+                // The config hook stops waiting after 5 seconds, while discovery still waits for /props
+                const configDone = pluginHooks.config(config)
+                await vi.advanceTimersByTimeAsync(5000)
+                await configDone
+                expect(config.provider['llama.cpp'].models).toBeUndefined()
+
+                await pluginHooks.event({event: {type: 'session.created', properties: {info: {id: 's1'}}}})
+                releaseProps()
+                await vi.waitFor(() => expect(config.provider['llama.cpp'].models?.['slow-model']).toBeDefined())
+                await pluginHooks.event({event: {type: 'session.created', properties: {info: {id: 's2'}}}})
+            } finally {
+                vi.useRealTimers()
+            }
+
+            const titles = mockClient.tui.showToast.mock.calls.map(([{body}]: any) => body.title)
+            expect(titles).not.toContain('Models Added')
+            expect(mockClient.instance.dispose).not.toHaveBeenCalled()
+        })
     })
 
     describe('Chat Params Hook', () => {
@@ -312,28 +737,897 @@ describe('Llama.cpp Plugin', () => {
             }))
         })
 
-        it('should handle network errors gracefully', async () => {
-            // Mock network error for fresh calls
-            mockFetch.mockRejectedValueOnce(new Error('Network error'))
-            mockFetch.mockRejectedValueOnce(new Error('Network error'))
-            mockFetch.mockRejectedValueOnce(new Error('Network error'))
+        it('should load a missing model on demand in router mode', async () => {
+            let loaded = false
+            mockFetch.mockImplementation(async (url: string, init: any) => {
+                if (url.endsWith('/models/load')) {
+                    expect(JSON.parse(init.body)).toEqual({model: 'router-model'})
+                    loaded = true
+                    return {ok: true, json: async () => ({success: true})}
+                }
+                return {
+                    ok: true,
+                    json: async () => ({
+                        data: [{
+                            id: 'router-model',
+                            object: 'model',
+                            created: 1234567890,
+                            owned_by: 'llamacpp',
+                            status: {value: loaded ? 'loaded' : 'unloaded'}
+                        }]
+                    })
+                }
+            })
 
             const input = {
                 sessionID: 'test-session',
-                model: {id: 'test-model-failing'}, // Use different model to bypass cache
+                model: {id: 'router-model'},
                 provider: {
                     info: {id: 'llama.cpp'},
-                    options: {baseURL: 'http://127.0.0.1:1234/v1'}
+                    options: {baseURL: 'http://127.0.0.1:8081/v1', autoLoad: true}
                 }
             }
             const output: any = {}
 
             await pluginHooks['chat.params'](input, output)
 
+            expect(mockFetch).toHaveBeenCalledWith('http://127.0.0.1:8081/models/load', expect.objectContaining({method: 'POST'}))
             expect(output.options?.llamaCppValidation).toEqual(expect.objectContaining({
-                status: 'error',
-                errorCategory: expect.any(String)
+                status: 'success',
+                model: 'router-model'
+            }))
+        })
+
+        it('should warn when every server slot is busy', async () => {
+            mockFetch.mockImplementation(async (url: string) => {
+                if (url.endsWith('/slots')) {
+                    return {
+                        ok: true,
+                        json: async () => ([
+                            {id: 0, n_ctx: 4096, is_processing: true},
+                            {id: 1, n_ctx: 4096, is_processing: true}
+                        ])
+                    }
+                }
+                return {
+                    ok: true,
+                    json: async () => ({data: [{id: 'shared-model', object: 'model', created: 1, owned_by: 'llamacpp'}]})
+                }
+            })
+
+            const input = {
+                sessionID: 'test-session',
+                model: {id: 'shared-model'},
+                provider: {
+                    info: {id: 'llama.cpp'},
+                    options: {baseURL: 'http://127.0.0.1:8083/v1'}
+                }
+            }
+            const output: any = {}
+
+            await pluginHooks['chat.params'](input, output)
+
+            expect(mockClient.tui.showToast).toHaveBeenCalledWith(expect.objectContaining({
+                body: expect.objectContaining({
+                    variant: 'warning',
+                    message: expect.stringContaining('slot(s) are busy')
+                })
             }))
+            expect(output.options?.llamaCppValidation?.slots).toEqual({total: 2, idle: 0, busy: 2})
+        })
+
+        it('should report throughput from /metrics and summarize the session when idle', async () => {
+            let predicted = 1000
+            mockFetch.mockImplementation(async (url: string) => {
+                if (url.endsWith('/metrics')) {
+                    const body = [
+                        '# HELP llamacpp:tokens_predicted_total Number of generation tokens processed.',
+                        '# TYPE llamacpp:tokens_predicted_total counter',
+                        `llamacpp:tokens_predicted_total ${predicted}`,
+                        `llamacpp:tokens_predicted_seconds_total ${predicted / 40}`,
+                        'llamacpp:predicted_tokens_seconds 40',
+                        'llamacpp:kv_cache_usage_ratio 0.25',
+                        'llamacpp:requests_deferred 0'
+                    ].join('\n')
+                    return {ok: true, text: async () => body}
+                }
+                return {
+                    ok: true,
+                    json: async () => ({data: [{id: 'fast-model', object: 'model', created: 1, owned_by: 'llamacpp'}]})
+                }
+            })
+
+            const input = {
+                sessionID: 'metrics-session',
+                model: {id: 'fast-model'},
+                provider: {
+                    info: {id: 'llama.cpp'},
+                    options: {baseURL: 'http://127.0.0.1:8084/v1'}
+                }
+            }
+            const output: any = {}
+
+            await pluginHooks['chat.params'](input, output)
+            expect(output.options?.llamaCppValidation?.performanceHint).toBe('Generation 40.0 tok/s, KV cache 25% used')
+
+            predicted = 1400
+            await pluginHooks.event({event: {type: 'session.idle', properties: {sessionID: 'metrics-session'}}})
+
+            expect(mockClient.tui.showToast).toHaveBeenCalledWith(expect.objectContaining({
+                body: expect.objectContaining({
+                    title: 'llama.cpp Session Summary',
+                    message: 'Generated 400 tokens at 40.0 tok/s'
+                })
+            }))
+        })
+
+        it('should apply per-model and per-agent sampling profiles', async () => {
+            mockFetch.mockResolvedValue({
+                ok: true,
+                json: async () => ({data: [{id: 'qwen3-30b-a3b', object: 'model', created: 1, owned_by: 'llamacpp'}]})
+            })
+
+            const input = {
+                sessionID: 'test-session',
+                agent: 'plan',
+                model: {id: 'qwen3-30b-a3b'},
+                provider: {
+                    info: {id: 'llama.cpp'},
+                    options: {
+                        baseURL: 'http://127.0.0.1:8085/v1',
+                        sampling: {
+                            models: {
+                                'qwen3*': {temperature: 0.7, topP: 0.8, top_k: 20, min_p: 0},
+                                'gemma*': {temperature: 1.0, repeat_penalty: 1.0}
+                            },
+                            agents: {
+                                plan: {temperature: 0.3}
+                            }
+                        }
+                    }
+                }
+            }
+            const output: any = {temperature: 1, topP: 1, topK: 0, options: {}}
+
+            await pluginHooks['chat.params'](input, output)
+
+            expect(output.temperature).toBe(0.3)
+            expect(output.topP).toBe(0.8)
+            expect(output.options).toEqual(expect.objectContaining({top_k: 20, min_p: 0}))
+            expect(output.options.repeat_penalty).toBeUndefined()
+        })
+
+        it('should attach the agent grammar profile to the request', async () => {
+            mockFetch.mockResolvedValue({
+                ok: true,
+                json: async () => ({data: [{id: 'small-model', object: 'model', created: 1, owned_by: 'llamacpp'}]})
+            })
+
+            const grammarFile = join(mkdtempSync(join(tmpdir(), 'llama-grammar-')), 'answer.gbnf')
+            writeFileSync(grammarFile, 'root ::= "yes" | "no"\n')
+
+            const provider = {
+                info: {id: 'llama.cpp'},
+                options: {
+                    baseURL: 'http://127.0.0.1:8086/v1',
+                    grammars: {
+                        profiles: {
+                            answer: {file: grammarFile},
+                            tools: {jsonSchema: {type: 'object', required: ['tool']}}
+                        },
+                        agents: {build: 'tools', review: 'answer'}
+                    }
+                }
+            }
+
+            const reviewOutput: any = {options: {}}
+            await pluginHooks['chat.params']({sessionID: 's', agent: 'review', model: {id: 'small-model'}, provider}, reviewOutput)
+            expect(reviewOutput.options.grammar).toBe('root ::= "yes" | "no"\n')
+
+            const buildOutput: any = {options: {}}
+            await pluginHooks['chat.params']({sessionID: 's', agent: 'build', model: {id: 'small-model'}, provider}, buildOutput)
+            expect(buildOutput.options.json_schema).toEqual({type: 'object', required: ['tool']})
+            expect(buildOutput.options.grammar).toBeUndefined()
+        })
+
+        it('should expose LoRA adapters as model variants and select them per request', async () => {
+            mockFetch.mockImplementation(async (url: string) => {
+                if (url.endsWith('/lora-adapters')) {
+                    return {ok: true, json: async () => ([{id: 0, path: '/loras/our-codebase.gguf', scale: 0}])}
+                }
+                return {
+                    ok: true,
+                    json: async () => ({data: [{id: 'qwen3-8b', object: 'model', created: 1, owned_by: 'llamacpp'}]})
+                }
+            })
+
+            const provider = {
+                npm: '@ai-sdk/openai-compatible',
+                name: 'llama.cpp (local)',
+                options: {baseURL: 'http://127.0.0.1:8093/v1', loraScales: [1, 0.5]}
+            }
+            const config: any = {provider: {'llama.cpp': provider}}
+            await pluginHooks.config(config)
+
+            const models = config.provider['llama.cpp'].models
+            expect(Object.keys(models)).toEqual(['qwen3-8b', 'qwen3-8b+our-codebase', 'qwen3-8b+our-codebase@0.5'])
+            expect(models['qwen3-8b+our-codebase@0.5']).toEqual(expect.objectContaining({
+                id: 'qwen3-8b',
+                lora: [{id: 0, scale: 0.5}]
+            }))
+
+            const output: any = {options: {}}
+            await pluginHooks['chat.params']({
+                sessionID: 'lora-session',
+                model: {id: 'qwen3-8b+our-codebase@0.5'},
+                provider: {info: {id: 'llama.cpp'}, options: provider.options}
+            }, output)
+
+            expect(output.options.lora).toEqual([{id: 0, scale: 0.5}])
+            expect(output.options.llamaCppValidation).toEqual(expect.objectContaining({status: 'success', model: 'qwen3-8b'}))
+        })
+
+        it('should mark models whose template renders no tools and warn when a tool agent picks one', async () => {
+            mockFetch.mockImplementation(async (url: string) => {
+                if (url.endsWith('/props')) {
+                    return {ok: true, json: async () => ({chat_template: '{% for m in messages %}{{ m.content }}{% endfor %}'})}
+                }
+                return {
+                    ok: true,
+                    json: async () => ({data: [{id: 'old-template-model', object: 'model', created: 1, owned_by: 'llamacpp'}]})
+                }
+            })
+
+            const provider = {
+                npm: '@ai-sdk/openai-compatible',
+                name: 'llama.cpp (local)',
+                options: {baseURL: 'http://127.0.0.1:8095/v1'}
+            }
+            const config: any = {provider: {'llama.cpp': provider}}
+            await pluginHooks.config(config)
+            expect(config.provider['llama.cpp'].models['old-template-model'].tool_call).toBe(false)
+            // The template settles it, so no chat completion is sent to find out
+            expect(mockFetch.mock.calls.some(([url]) => url.endsWith('/v1/chat/completions'))).toBe(false)
+
+            const input = {
+                sessionID: 'tool-session',
+                agent: 'build',
+                model: {id: 'old-template-model', capabilities: {toolcall: false}},
+                provider: {info: {id: 'llama.cpp'}, options: provider.options}
+            }
+            await pluginHooks['chat.params'](input, {options: {}})
+            await pluginHooks['chat.params'](input, {options: {}})
+            await pluginHooks['chat.params']({...input, sessionID: 'title-session', agent: 'title'}, {options: {}})
+
+            const toolWarnings = mockClient.tui.showToast.mock.calls.filter(([{body}]: any) => body.title === 'No Tool Calling')
+            expect(toolWarnings).toHaveLength(1)
+            expect(toolWarnings[0][0].body.message).toContain("Agent 'build'")
+        })
+
+        it('should probe tool calling after registering the model and keep the result for the next start', async () => {
+            let completions = 0
+            mockFetch.mockImplementation(async (url: string) => {
+                if (url.endsWith('/props')) {
+                    // Mentions tools, but not how tool calls come back
+                    return {ok: true, json: async () => ({build_info: 'b1', chat_template: '{{ messages }}{% if tools %}{{ tools }}{% endif %}'})}
+                }
+                if (url.endsWith('/v1/chat/completions')) {
+                    completions++
+                    await new Promise(resolve => setTimeout(resolve, 50))
+                    return {ok: true, json: async () => ({choices: [{message: {role: 'assistant', tool_calls: [{type: 'function', function: {name: 'get_time', arguments: '{}'}}]}}]})}
+                }
+                return {
+                    ok: true,
+                    json: async () => ({data: [{id: 'tools-model', object: 'model', created: 1, owned_by: 'llamacpp'}]})
+                }
+            })
+            const createConfig = (): any => ({
+                provider: {
+                    'llama.cpp': {
+                        npm: '@ai-sdk/openai-compatible',
+                        name: 'llama.cpp (local)',
+                        options: {baseURL: 'http://127.0.0.1:8109/v1'}
+                    }
+                }
+            })
+
+            // The model is registered before the probe answers, and patched once it does
+            const config = createConfig()
+            await pluginHooks.config(config)
+            expect(config.provider['llama.cpp'].models['tools-model'].tool_call).toBeUndefined()
+            await vi.waitFor(() => expect(config.provider['llama.cpp'].models['tools-model'].tool_call).toBe(true))
+
+            const cacheFile = join(process.env.OPENCODE_LLAMA_CPP_CACHE_DIR!, 'discovery.json')
+            await vi.waitFor(() => {
+                const cached = JSON.parse(readFileSync(cacheFile, 'utf-8'))
+                expect(cached.servers['http://127.0.0.1:8109'].probes['tools-model']).toEqual(expect.objectContaining({toolCall: true}))
+            })
+
+            // Next start with the same server: the stored result applies right away, without another probe
+            const restarted = await LlamaCppPlugin({client: mockClient} as any)
+            const nextConfig = createConfig()
+            await restarted.config!(nextConfig)
+            expect(nextConfig.provider['llama.cpp'].models['tools-model'].tool_call).toBe(true)
+            expect(completions).toBe(1)
+        })
+
+        it('should mark reasoning models and switch thinking per agent', async () => {
+            mockFetch.mockImplementation(async (url: string) => {
+                if (url.endsWith('/props')) {
+                    return {
+                        ok: true,
+                        json: async () => ({
+                            chat_template: '{%- if enable_thinking is defined and enable_thinking is false %}<think>\n\n</think>{%- endif %}',
+                            chat_template_caps: {supports_tools: true}
+                        })
+                    }
+                }
+                return {
+                    ok: true,
+                    json: async () => ({data: [{id: 'qwen3-14b', object: 'model', created: 1, owned_by: 'llamacpp'}]})
+                }
+            })
+
+            const provider = {
+                npm: '@ai-sdk/openai-compatible',
+                name: 'llama.cpp (local)',
+                options: {
+                    baseURL: 'http://127.0.0.1:8096/v1',
+                    reasoning: {
+                        models: {'qwen3*': {format: 'deepseek', budget: 2048}},
+                        agents: {title: {enableThinking: false}}
+                    }
+                }
+            }
+            const config: any = {provider: {'llama.cpp': provider}}
+            await pluginHooks.config(config)
+            expect(config.provider['llama.cpp'].models['qwen3-14b'].reasoning).toBe(true)
+
+            const titleOutput: any = {options: {}}
+            await pluginHooks['chat.params']({
+                sessionID: 'reasoning-session',
+                agent: 'title',
+                model: {id: 'qwen3-14b'},
+                provider: {info: {id: 'llama.cpp'}, options: provider.options}
+            }, titleOutput)
+            expect(titleOutput.options).toEqual(expect.objectContaining({
+                reasoning_format: 'deepseek',
+                reasoning_budget: 2048,
+                chat_template_kwargs: {enable_thinking: false}
+            }))
+
+            const buildOutput: any = {options: {}}
+            await pluginHooks['chat.params']({
+                sessionID: 'reasoning-session',
+                agent: 'build',
+                model: {id: 'qwen3-14b'},
+                provider: {info: {id: 'llama.cpp'}, options: provider.options}
+            }, buildOutput)
+            expect(buildOutput.options.reasoning_format).toBe('deepseek')
+            expect(buildOutput.options.chat_template_kwargs).toBeUndefined()
+        })
+
+        it('should validate against the model list cached by discovery', async () => {
+            mockFetch.mockResolvedValue({
+                ok: true,
+                json: async () => ({data: [{id: 'warm-model', object: 'model', created: 1, owned_by: 'llamacpp'}]})
+            })
+
+            const provider = {
+                npm: '@ai-sdk/openai-compatible',
+                name: 'llama.cpp (local)',
+                options: {baseURL: 'http://127.0.0.1:8097/v1'}
+            }
+            await pluginHooks.config({provider: {'llama.cpp': provider}})
+
+            mockFetch.mockClear()
+            const output: any = {options: {}}
+            await pluginHooks['chat.params']({
+                sessionID: 'warm-session',
+                model: {id: 'warm-model'},
+                provider: {info: {id: 'llama.cpp'}, options: provider.options}
+            }, output)
+
+            const modelListCalls = mockFetch.mock.calls.filter(([url]: [string]) => url.endsWith('/v1/models'))
+            expect(modelListCalls).toHaveLength(0)
+            expect(output.options.llamaCppValidation).toEqual(expect.objectContaining({
+                status: 'success',
+                cacheInfo: expect.objectContaining({valid: true, totalCacheEntries: 1})
+            }))
+        })
+
+        it('should warn when the tokenized prompt exceeds the context size', async () => {
+            mockFetch.mockImplementation(async (url: string, init?: any) => {
+                if (url.endsWith('/tokenize')) {
+                    const {content} = JSON.parse(init.body)
+                    return {ok: true, json: async () => ({tokens: Array.from({length: content.length}, (_, i) => i)})}
+                }
+                return {
+                    ok: true,
+                    json: async () => ({data: [{id: 'tiny-ctx', object: 'model', created: 1, owned_by: 'llamacpp'}]})
+                }
+            })
+
+            await pluginHooks['experimental.chat.system.transform']({sessionID: 'long-session'}, {system: ['You are helpful.']})
+            await pluginHooks['experimental.chat.messages.transform']({}, {
+                messages: [{
+                    info: {id: 'm1', sessionID: 'long-session', role: 'user'},
+                    parts: [{type: 'text', text: 'x'.repeat(200)}]
+                }]
+            })
+
+            const input = {
+                sessionID: 'long-session',
+                model: {id: 'tiny-ctx', limit: {context: 128, output: 64}},
+                provider: {
+                    info: {id: 'llama.cpp'},
+                    options: {baseURL: 'http://127.0.0.1:8087/v1'}
+                }
+            }
+            const output: any = {}
+
+            await pluginHooks['chat.params'](input, output)
+
+            // Two parts (system prompt and message) with template markup, plus the tool definitions
+            expect(output.options?.llamaCppValidation?.promptBudget).toEqual({tokens: 217, reserved: 2064, contextSize: 128, exceeded: true})
+            expect(mockClient.tui.showToast).toHaveBeenCalledWith(expect.objectContaining({
+                body: expect.objectContaining({
+                    variant: 'warning',
+                    message: expect.stringContaining('Prompt is about 2281 tokens')
+                })
+            }))
+
+            // The next step only tokenizes the message added since
+            await pluginHooks['experimental.chat.messages.transform']({}, {
+                messages: [
+                    {info: {id: 'm1', sessionID: 'long-session', role: 'user'}, parts: [{type: 'text', text: 'x'.repeat(200)}]},
+                    {info: {id: 'm2', sessionID: 'long-session', role: 'assistant'}, parts: [{type: 'text', text: 'y'.repeat(10)}]}
+                ]
+            })
+            const nextOutput: any = {}
+            await pluginHooks['chat.params'](input, nextOutput)
+
+            const tokenized = mockFetch.mock.calls.filter(([url]) => url.endsWith('/tokenize'))
+            expect(JSON.parse(tokenized[tokenized.length - 1][1].body).content).toBe('y'.repeat(10))
+            expect(nextOutput.options.llamaCppValidation.promptBudget).toEqual(expect.objectContaining({tokens: 227, reserved: 2072}))
+        })
+
+        it('should handle network errors gracefully', async () => {
+            // Mock network error for fresh calls
+            mockFetch.mockRejectedValueOnce(new Error('Network error'))
+            mockFetch.mockRejectedValueOnce(new Error('Network error'))
+            mockFetch.mockRejectedValueOnce(new Error('Network error'))
+
+            const input = {
+                sessionID: 'test-session',
+                model: {id: 'test-model-failing'}, // Use different model to bypass cache
+                provider: {
+                    info: {id: 'llama.cpp'},
+                    options: {baseURL: 'http://127.0.0.1:1234/v1'}
+                }
+            }
+            const output: any = {}
+
+            await pluginHooks['chat.params'](input, output)
+
+            expect(output.options?.llamaCppValidation).toEqual(expect.objectContaining({
+                status: 'error',
+                errorCategory: expect.any(String)
+            }))
+        })
+    })
+
+    describe('Circuit Breaker', () => {
+        it('should fail fast with one offline toast per outage', async () => {
+            mockFetch.mockRejectedValue(new TypeError('fetch failed'))
+
+            const input = {
+                sessionID: 'offline-session',
+                model: {id: 'offline-model'},
+                provider: {info: {id: 'llama.cpp'}, options: {baseURL: 'http://127.0.0.1:8100/v1'}}
+            }
+            const firstOutput: any = {}
+            await pluginHooks['chat.params'](input, firstOutput)
+            expect(firstOutput.options.llamaCppValidation).toEqual(expect.objectContaining({
+                status: 'error',
+                errorCategory: 'offline',
+                circuit: expect.objectContaining({state: 'open', failures: 1})
+            }))
+
+            mockFetch.mockClear()
+            const secondOutput: any = {}
+            await pluginHooks['chat.params'](input, secondOutput)
+            expect(mockFetch).not.toHaveBeenCalled()
+            expect(secondOutput.options.llamaCppValidation).toEqual(expect.objectContaining({
+                errorCategory: 'offline',
+                circuit: expect.objectContaining({state: 'open'})
+            }))
+
+            const errorToasts = mockClient.tui.showToast.mock.calls.filter(([{body}]: any) => body.variant === 'error')
+            expect(errorToasts.map(([{body}]: any) => body.title)).toEqual(['Server Offline'])
+        })
+
+        it('should open the circuit when the server stops responding in time', async () => {
+            mockFetch.mockRejectedValue(new DOMException('The operation was aborted due to timeout', 'TimeoutError'))
+
+            const output: any = {}
+            await pluginHooks['chat.params']({
+                sessionID: 'hung-session',
+                model: {id: 'hung-model'},
+                provider: {info: {id: 'llama.cpp'}, options: {baseURL: 'http://127.0.0.1:8103/v1'}}
+            }, output)
+
+            expect(output.options.llamaCppValidation).toEqual(expect.objectContaining({
+                errorCategory: 'timeout',
+                circuit: expect.objectContaining({state: 'open', failures: 1})
+            }))
+            const errorToasts = mockClient.tui.showToast.mock.calls.filter(([{body}]: any) => body.variant === 'error')
+            expect(errorToasts.map(([{body}]: any) => body.title)).toEqual(['Server Offline'])
+        })
+
+        it('should let one probe through after the reset timeout and close on success', async () => {
+            const breaker = new CircuitBreaker({resetTimeout: 20})
+            expect(breaker.recordFailure('http://127.0.0.1:8101')).toBe(true)
+            expect(breaker.tryAcquire('http://127.0.0.1:8101')).toBe(false)
+
+            await new Promise(resolve => setTimeout(resolve, 30))
+            expect(breaker.getState('http://127.0.0.1:8101')).toBe('half-open')
+            expect(breaker.tryAcquire('http://127.0.0.1:8101')).toBe(true)
+            expect(breaker.tryAcquire('http://127.0.0.1:8101')).toBe(false)
+
+            // A failed probe reopens the circuit without starting a new outage
+            expect(breaker.recordFailure('http://127.0.0.1:8101')).toBe(false)
+            await new Promise(resolve => setTimeout(resolve, 30))
+            expect(breaker.tryAcquire('http://127.0.0.1:8101')).toBe(true)
+            expect(breaker.recordSuccess('http://127.0.0.1:8101')).toBe(true)
+            expect(breaker.getState('http://127.0.0.1:8101')).toBe('closed')
+            expect(breaker.getStates()).toEqual({})
+        })
+    })
+
+    describe('Model Status Cache', () => {
+        it('should share one fetch between concurrent callers and serve expired entries while refreshing', async () => {
+            const cache = new ModelStatusCache()
+            let resolveFetch: (models: string[]) => void = () => {
+            }
+            const fetchFn = vi.fn(() => new Promise<string[]>(resolve => {
+                resolveFetch = resolve
+            }))
+
+            const callers = Promise.all([1, 2, 3].map(() => cache.getModels('http://127.0.0.1:8098', fetchFn)))
+            resolveFetch(['model-a'])
+            expect(await callers).toEqual([['model-a'], ['model-a'], ['model-a']])
+            expect(fetchFn).toHaveBeenCalledTimes(1)
+
+            // Expire the entry: it is still served right away while one refresh runs
+            cache.setTTL('http://127.0.0.1:8098', 50)
+            await new Promise(resolve => setTimeout(resolve, 60))
+            expect(await cache.getModels('http://127.0.0.1:8098', fetchFn)).toEqual(['model-a'])
+            expect(await cache.getModels('http://127.0.0.1:8098', fetchFn)).toEqual(['model-a'])
+            expect(fetchFn).toHaveBeenCalledTimes(2)
+            resolveFetch(['model-a', 'model-b'])
+            await new Promise(resolve => setTimeout(resolve, 0))
+            cache.setTTL('http://127.0.0.1:8098', 15000)
+            expect(await cache.getModels('http://127.0.0.1:8098', fetchFn)).toEqual(['model-a', 'model-b'])
+        })
+
+        it('should stop serving an expired entry once its refresh failed', async () => {
+            const cache = new ModelStatusCache()
+            const fetchFn = vi.fn().mockResolvedValue(['model-a'])
+            expect(await cache.getModels('http://127.0.0.1:8110', fetchFn)).toEqual(['model-a'])
+
+            cache.setTTL('http://127.0.0.1:8110', 50)
+            await new Promise(resolve => setTimeout(resolve, 60))
+            fetchFn.mockRejectedValue(new Error('fetch failed'))
+
+            // The first caller gets the expired entry while the refresh runs; once it failed the outage shows
+            expect(await cache.getModels('http://127.0.0.1:8110', fetchFn)).toEqual(['model-a'])
+            await new Promise(resolve => setTimeout(resolve, 0))
+            for (let call = 0; call < 4; call++) {
+                await expect(cache.getModels('http://127.0.0.1:8110', fetchFn)).rejects.toThrow('fetch failed')
+            }
+            expect(fetchFn).toHaveBeenCalledTimes(2)
+        })
+
+        it('should not ask an offline server again until the failure expires', async () => {
+            const cache = new ModelStatusCache()
+            const fetchFn = vi.fn().mockRejectedValue(new Error('fetch failed'))
+
+            await expect(cache.getModels('http://127.0.0.1:8099', fetchFn)).rejects.toThrow('fetch failed')
+            await expect(cache.getModels('http://127.0.0.1:8099', fetchFn)).rejects.toThrow('fetch failed')
+            expect(fetchFn).toHaveBeenCalledTimes(1)
+
+            // Forcing a refresh always asks the server
+            fetchFn.mockResolvedValue(['model-a'])
+            expect(await cache.forceRefresh('http://127.0.0.1:8099', fetchFn)).toEqual(['model-a'])
+            expect(fetchFn).toHaveBeenCalledTimes(2)
+        })
+    })
+
+    describe('Model Loading Monitor', () => {
+        it('should poll /health until the model is loaded and emit state changes', async () => {
+            let healthChecks = 0
+            mockFetch.mockImplementation(async (url: string) => {
+                if (url.endsWith('/health')) {
+                    healthChecks++
+                    return healthChecks < 3
+                        ? {ok: false, status: 503, json: async () => ({error: {code: 503, message: 'Loading model'}})}
+                        : {ok: true, status: 200, json: async () => ({status: 'ok'})}
+                }
+                return {
+                    ok: true,
+                    json: async () => ({data: [{id: 'slow-model', object: 'model', created: 1, owned_by: 'llamacpp'}]})
+                }
+            })
+
+            const monitor = new ModelLoadingMonitor(undefined, {pollInterval: 20})
+            const events: string[] = []
+            monitor.onStateChange(event => events.push(`${event.previousStatus}->${event.state.status}`))
+
+            monitor.startMonitoring('slow-model', 'http://127.0.0.1:8082')
+            const state = await monitor.waitForLoad('slow-model', 'http://127.0.0.1:8082')
+
+            expect(state.status).toBe('loaded')
+            expect(healthChecks).toBeGreaterThanOrEqual(3)
+            expect(events[0]).toBe('not_loaded->loading')
+            expect(events).toContain('loading->loaded')
+
+            // The next load of the same model gets an ETA from the previous duration
+            monitor.startMonitoring('slow-model', 'http://127.0.0.1:8082')
+            expect(monitor.getState('slow-model', 'http://127.0.0.1:8082')?.eta).toEqual(expect.any(Number))
+            await monitor.waitForLoad('slow-model', 'http://127.0.0.1:8082')
+            monitor.cleanup()
+        })
+
+        it('should report an error when loading times out', async () => {
+            mockFetch.mockResolvedValue({ok: false, status: 503, json: async () => ({error: {message: 'Loading model'}})})
+
+            const monitor = new ModelLoadingMonitor(undefined, {pollInterval: 20, loadingTimeout: 100})
+            monitor.startMonitoring('stuck-model', 'http://127.0.0.1:8082')
+            const state = await monitor.waitForLoad('stuck-model', 'http://127.0.0.1:8082')
+
+            expect(state.status).toBe('error')
+            expect(state.error).toContain('timeout')
+            monitor.cleanup()
+        })
+
+        it('should track the same model on two servers separately', async () => {
+            mockFetch.mockImplementation(async (url: string) => {
+                if (url.startsWith('http://127.0.0.1:8104')) {
+                    return {ok: false, status: 503, json: async () => ({error: {message: 'Loading model'}})}
+                }
+                return url.endsWith('/health')
+                    ? {ok: true, status: 200, json: async () => ({status: 'ok'})}
+                    : {ok: true, json: async () => ({data: [{id: 'shared-model', object: 'model', created: 1, owned_by: 'llamacpp'}]})}
+            })
+
+            const monitor = new ModelLoadingMonitor(undefined, {pollInterval: 20})
+            monitor.startMonitoring('shared-model', 'http://127.0.0.1:8104')
+            monitor.startMonitoring('shared-model', 'http://127.0.0.1:8105')
+
+            expect((await monitor.waitForLoad('shared-model', 'http://127.0.0.1:8105')).status).toBe('loaded')
+            expect(monitor.getState('shared-model', 'http://127.0.0.1:8104')?.status).toBe('loading')
+            monitor.cleanup()
+        })
+    })
+
+    describe('Embeddings Client', () => {
+        it('should batch inputs and return vectors in input order', async () => {
+            mockFetch.mockImplementation(async (_url: string, init: any) => {
+                const {input} = JSON.parse(init.body)
+                // Answer out of order, the client sorts by index
+                const data = input.map((text: string, index: number) => ({index, embedding: [text.length, index]})).reverse()
+                return {ok: true, json: async () => ({object: 'list', data})}
+            })
+
+            const result = await embedLlamaCpp('http://127.0.0.1:8090', ['a', 'bb', 'ccc'], 'nomic-embed-text', {batchSize: 2})
+
+            expect(mockFetch).toHaveBeenCalledTimes(2)
+            expect(mockFetch.mock.calls[0][0]).toBe('http://127.0.0.1:8090/v1/embeddings')
+            expect(result).toEqual({model: 'nomic-embed-text', dimension: 2, vectors: [[1, 0], [2, 1], [3, 0]]})
+        })
+
+        it('should use the native endpoint with a normalization and report the dimension in model metadata', async () => {
+            mockFetch.mockImplementation(async (url: string, init?: any) => {
+                if (url.endsWith('/embedding')) {
+                    const {content, embd_normalize} = JSON.parse(init.body)
+                    expect(embd_normalize).toBe(-1)
+                    return {ok: true, json: async () => content.map((_: string, index: number) => ({index, embedding: [[0.5, 0.25, 0.125]]}))}
+                }
+                if (url.endsWith('/v1/embeddings')) {
+                    return {ok: true, json: async () => ({data: [{index: 0, embedding: new Array(768).fill(0)}]})}
+                }
+                return {
+                    ok: true,
+                    json: async () => ({data: [{id: 'bge-embedding', object: 'model', created: 1, owned_by: 'llamacpp'}]})
+                }
+            })
+
+            const native = await embedLlamaCpp('http://127.0.0.1:8091', ['hello'], undefined, {normalize: -1})
+            expect(native.vectors).toEqual([[0.5, 0.25, 0.125]])
+
+            const config: any = {
+                provider: {
+                    'llama.cpp': {
+                        npm: '@ai-sdk/openai-compatible',
+                        name: 'llama.cpp (local)',
+                        options: {baseURL: 'http://127.0.0.1:8091/v1'}
+                    }
+                }
+            }
+            await pluginHooks.config(config)
+
+            // The dimension probe runs after the model is registered
+            await vi.waitFor(() => expect(config.provider['llama.cpp'].models['bge-embedding']).toEqual(expect.objectContaining({
+                embeddingDimension: 768,
+                modalities: {input: ['text'], output: ['embedding']}
+            })))
+        })
+    })
+
+    describe('Infill Client', () => {
+        it('should tag FIM-capable models and complete between prefix and suffix', async () => {
+            mockFetch.mockImplementation(async (url: string, init?: any) => {
+                if (url.endsWith('/tokenize')) {
+                    const {content} = JSON.parse(init.body)
+                    return {ok: true, json: async () => ({tokens: content === '<|fim_prefix|>' ? [151659] : [27, 91, 5885]})}
+                }
+                if (url.endsWith('/infill')) {
+                    const body = JSON.parse(init.body)
+                    expect(body).toEqual(expect.objectContaining({
+                        input_prefix: 'def add(a, b):\n    ',
+                        input_suffix: '\n',
+                        input_extra: [{filename: 'util.py', text: 'import math'}],
+                        n_predict: 16
+                    }))
+                    return {ok: true, json: async () => ({content: 'return a + b', tokens_predicted: 5, stop_type: 'eos'})}
+                }
+                return {
+                    ok: true,
+                    json: async () => ({data: [{id: 'qwen2.5-coder-7b', object: 'model', created: 1, owned_by: 'llamacpp'}]})
+                }
+            })
+
+            const config: any = {
+                provider: {
+                    'llama.cpp': {
+                        npm: '@ai-sdk/openai-compatible',
+                        name: 'llama.cpp (local)',
+                        options: {baseURL: 'http://127.0.0.1:8092/v1'}
+                    }
+                }
+            }
+            await pluginHooks.config(config)
+            await vi.waitFor(() => expect(config.provider['llama.cpp'].models['qwen2_5-coder-7b']?.fim).toBe(true))
+
+            const result = await infillLlamaCpp('http://127.0.0.1:8092', {
+                prefix: 'def add(a, b):\n    ',
+                suffix: '\n',
+                extraContext: [{filename: 'util.py', text: 'import math'}],
+                maxTokens: 16
+            })
+            expect(result).toEqual({content: 'return a + b', tokensPredicted: 5, stoppedByLimit: false})
+        })
+    })
+
+    describe('LlamaCpp Client', () => {
+        it('should retry transient failures and stop at errors another attempt cannot fix', async () => {
+            const timeoutSpy = vi.spyOn(AbortSignal, 'timeout')
+            mockFetch
+                .mockRejectedValueOnce(new TypeError('fetch failed'))
+                .mockResolvedValueOnce({ok: false, status: 503, statusText: 'Service Unavailable', json: async () => ({error: {message: 'Loading model'}})})
+                .mockResolvedValueOnce({ok: true, json: async () => ({tokens: [1, 2, 3]})})
+
+            const client = new LlamaCppClient('http://127.0.0.1:8102/v1', {retries: 2, retryDelay: 1, timeouts: {tokenize: 1234}})
+            await expect(client.tokenize('hello')).resolves.toEqual([1, 2, 3])
+            expect(mockFetch).toHaveBeenCalledTimes(3)
+            expect(timeoutSpy).toHaveBeenCalledWith(1234)
+
+            mockFetch.mockReset()
+            mockFetch.mockResolvedValue({ok: false, status: 404, statusText: 'Not Found', json: async () => ({error: {message: 'model not found'}})})
+            const error = await client.getProps('missing-model').catch(error => error)
+            expect(mockFetch).toHaveBeenCalledTimes(1)
+            expect(error).toBeInstanceOf(LlamaCppError)
+            expect(error).toEqual(expect.objectContaining({kind: 'http', status: 404, serverMessage: 'model not found', endpoint: '/props?model=missing-model'}))
+            expect(categorizeError(error, {baseURL: 'http://127.0.0.1:8102', modelId: 'missing-model'}).type).toBe('not_found')
+        })
+
+        it('should only settle tool calling on a tool call or a rejected request', async () => {
+            const reply = (message: Record<string, unknown>, finishReason: string) =>
+                ({ok: true, json: async () => ({choices: [{message: {role: 'assistant', ...message}, finish_reason: finishReason}]})})
+
+            mockFetch.mockResolvedValueOnce(reply({tool_calls: [{type: 'function', function: {name: 'get_time', arguments: '{}'}}]}, 'tool_calls'))
+            expect(await probeLlamaCppToolCalling('http://127.0.0.1:8111')).toBe(true)
+            expect(JSON.parse(mockFetch.mock.calls[0][1].body).max_tokens).toBeGreaterThanOrEqual(1024)
+
+            // A reasoning model cut off while thinking, or a text answer, says nothing about tool support
+            mockFetch.mockResolvedValueOnce(reply({content: null, reasoning_content: 'The user wants the time, so'}, 'length'))
+            expect(await probeLlamaCppToolCalling('http://127.0.0.1:8111')).toBeNull()
+            mockFetch.mockResolvedValueOnce(reply({content: 'I cannot tell the time.'}, 'stop'))
+            expect(await probeLlamaCppToolCalling('http://127.0.0.1:8111')).toBeNull()
+
+            mockFetch.mockResolvedValueOnce({ok: false, status: 400, statusText: 'Bad Request', json: async () => ({error: {message: 'tools param requires --jinja flag'}})})
+            expect(await probeLlamaCppToolCalling('http://127.0.0.1:8111')).toBe(false)
+        })
+
+        it('should reject responses that fail validation', async () => {
+            mockFetch.mockResolvedValue({ok: true, json: async () => ({data: [{object: 'model'}]})})
+
+            const error = await new LlamaCppClient('http://127.0.0.1:8102').listModels().catch(error => error)
+            expect(error).toEqual(expect.objectContaining({kind: 'invalid_response', message: 'Invalid /v1/models response: Model at index 0 missing required id field'}))
+        })
+
+        it('should send the provider headers and timeouts with every request', async () => {
+            const timeoutSpy = vi.spyOn(AbortSignal, 'timeout')
+            mockFetch.mockResolvedValue({
+                ok: true,
+                json: async () => ({data: [{id: 'proxied-model', object: 'model', created: 1, owned_by: 'llamacpp'}]})
+            })
+
+            const config: any = {
+                provider: {
+                    'llama.cpp': {
+                        npm: '@ai-sdk/openai-compatible',
+                        name: 'llama.cpp (local)',
+                        options: {baseURL: 'http://127.0.0.1:8102/v1', headers: {'X-Proxy-Token': 'abc'}, timeouts: {status: 4321}}
+                    }
+                }
+            }
+            await pluginHooks.config(config)
+
+            expect(config.provider['llama.cpp'].models['proxied-model']).toBeDefined()
+            expect(timeoutSpy).toHaveBeenCalledWith(4321)
+            for (const [, init] of mockFetch.mock.calls) {
+                expect(init.headers).toEqual(expect.objectContaining({'X-Proxy-Token': 'abc'}))
+            }
+        })
+    })
+
+    describe('Logger', () => {
+        it('should filter by level, print JSON lines and append them to the log file', async () => {
+            const file = join(mkdtempSync(join(tmpdir(), 'llama-log-')), 'plugin.log')
+            const options = resolveLogOptions({level: 'error'}, `warn,json,file=${file}`)
+            expect(options).toEqual({level: 'warn', json: true, file})
+
+            const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {
+            })
+            const infoSpy = vi.spyOn(console, 'info').mockImplementation(() => {
+            })
+
+            const logger = new Logger(options)
+            logger.info("Loaded 2 models from 1 server(s)")
+            logger.warn("Model discovery failed", {baseURL: 'http://127.0.0.1:8080', error: new Error('fetch failed')})
+            await logger.flush()
+
+            expect(infoSpy).not.toHaveBeenCalled()
+            expect(warnSpy).toHaveBeenCalledTimes(1)
+            const line = JSON.parse(warnSpy.mock.calls[0][0])
+            expect(line).toEqual(expect.objectContaining({
+                level: 'warn',
+                message: 'Model discovery failed',
+                baseURL: 'http://127.0.0.1:8080',
+                error: expect.objectContaining({message: 'fetch failed'})
+            }))
+            expect(readFileSync(file, 'utf-8').trim().split('\n').map(entry => JSON.parse(entry))).toEqual([line])
+
+            warnSpy.mockRestore()
+            infoSpy.mockRestore()
+        })
+
+        it('should keep the log settings of each logger apart', () => {
+            const infoSpy = vi.spyOn(console, 'info').mockImplementation(() => {
+            })
+
+            const quiet = new Logger({level: 'info', json: false})
+            const verbose = new Logger({level: 'info', json: false})
+            quiet.configure({level: 'error'})
+            quiet.info("Loaded 1 models from 1 server(s)")
+            verbose.info("Loaded 2 models from 1 server(s)")
+
+            expect(infoSpy).toHaveBeenCalledTimes(1)
+            expect(infoSpy.mock.calls[0][0]).toContain("Loaded 2 models")
+
+            infoSpy.mockRestore()
         })
     })
 
@@ -0,0 +1,252 @@
+import {createServer, type IncomingMessage, type Server, type ServerResponse} from 'http'
+import type {AddressInfo} from 'net'
+
+// In-process stand-in for llama-server, so integration tests can run the whole plugin over real HTTP
+
+export interface MockModel {
+    id: string
+    // Router mode only: whether the model is loaded, loading or waiting to be loaded
+    status?: 'loaded' | 'loading' | 'unloaded'
+    contextSize?: number
+    chatTemplate?: string
+}
+
+export interface MockLlamaServerOptions {
+    models?: (string | MockModel)[]
+    // Router mode: models carry a status and are loaded through POST /models/load
+    router?: boolean
+    // Require "Authorization: Bearer <apiKey>"; like llama-server, /health and /v1/models stay public
+    apiKey?: string
+    // Also require the key for /health and the model list, like a proxy in front of llama-server that protects every endpoint
+    protectAll?: boolean
+    // Answer 503 "Loading model" on every endpoint until setLoading(false), like a server that is still starting
+    loading?: boolean
+    // How long a router-mode load takes before the model reports loaded
+    loadDelay?: number
+    contextSize?: number
+    totalSlots?: number
+    busySlots?: number
+    // Expose /metrics, like llama-server started with --metrics
+    metrics?: boolean
+}
+
+export interface MockRequest {
+    method: string
+    path: string
+    authorization?: string
+    headers: Record<string, string | string[] | undefined>
+    body?: any
+}
+
+const DEFAULT_CONTEXT_SIZE = 4096
+const TOOL_TEMPLATE = "{% for message in messages %}{{ message.content }}{% endfor %}{% if tools %}{{ tools }}{% endif %}"
+
+function toModel(model: string | MockModel, router: boolean): MockModel {
+    const entry = typeof model === 'string' ? {id: model} : {...model}
+    return router ? {status: 'unloaded', ...entry} : entry
+}
+
+export class MockLlamaServer {
+    // Every request the server received, in order
+    readonly requests: MockRequest[] = []
+    private models: MockModel[]
+    private loading: boolean
+    private readonly loadTimers = new Set<NodeJS.Timeout>()
+
+    private constructor(private readonly server: Server, private readonly options: MockLlamaServerOptions) {
+        this.models = (options.models ?? ['mock-model']).map(model => toModel(model, options.router === true))
+        this.loading = options.loading === true
+    }
+
+    // Start a server on a free local port
+    static async start(options: MockLlamaServerOptions = {}): Promise<MockLlamaServer> {
+        const server = createServer()
+        const mock = new MockLlamaServer(server, options)
+        server.on('request', (req, res) => {
+            mock.handle(req, res).catch(error => mock.send(res, 500, {error: {code: 500, message: String(error), type: 'server_error'}}))
+        })
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+        return mock
+    }
+
+    get baseURL(): string {
+        return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`
+    }
+
+    // Replace the served models, like restarting llama-server with other models
+    setModels(models: (string | MockModel)[]): void {
+        this.models = models.map(model => toModel(model, this.options.router === true))
+    }
+
+    setLoading(loading: boolean): void {
+        this.loading = loading
+    }
+
+    // Requests to one path, e.g. "/props"
+    requestsTo(path: string): MockRequest[] {
+        return this.requests.filter(request => request.path === path)
+    }
+
+    async stop(): Promise<void> {
+        for (const timer of this.loadTimers) {
+            clearTimeout(timer)
+        }
+        this.loadTimers.clear()
+        if (!this.server.listening) {
+            return
+        }
+        this.server.closeAllConnections()
+        await new Promise<void>(resolve => this.server.close(() => resolve()))
+    }
+
+    private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+        const url = new URL(req.url || '/', this.baseURL)
+        const body = req.method === 'POST' ? await readJson(req) : undefined
+        this.requests.push({
+            method: req.method || 'GET',
+            path: url.pathname,
+            authorization: req.headers.authorization,
+            headers: req.headers,
+            body
+        })
+
+        if (this.loading) {
+            this.send(res, 503, {error: {code: 503, message: 'Loading model', type: 'unavailable_error'}})
+            return
+        }
+
+        const isPublic = !this.options.protectAll &&
+            (url.pathname === '/health' || url.pathname === '/v1/models' || url.pathname === '/models')
+        if (this.options.apiKey && !isPublic && req.headers.authorization !== `Bearer ${this.options.apiKey}`) {
+            this.send(res, 401, {error: {code: 401, message: 'Invalid API Key', type: 'authentication_error'}})
+            return
+        }
+
+        switch (`${req.method} ${url.pathname}`) {
+            case 'GET /health':
+                this.send(res, 200, {status: 'ok'})
+                return
+            case 'GET /v1/models':
+            case 'GET /models':
+                this.send(res, 200, {object: 'list', data: this.models.map(model => this.describeModel(model))})
+                return
+            case 'GET /props':
+                this.sendProps(res, url.searchParams.get('model'))
+                return
+            case 'GET /slots':
+                this.send(res, 200, this.describeSlots())
+                return
+            case 'GET /metrics':
+                if (this.options.metrics) {
+                    this.sendText(res, 200, this.describeMetrics())
+                } else {
+                    this.send(res, 501, {error: {code: 501, message: 'This server does not support metrics endpoint.', type: 'not_supported_error'}})
+                }
+                return
+            case 'POST /tokenize':
+                // One token per character: a FIM marker never comes back as a single special token
+                this.send(res, 200, {tokens: [...String(body?.content ?? '')].map((_, index) => index + 1)})
+                return
+            case 'GET /lora-adapters':
+                this.send(res, 200, [])
+                return
+            case 'POST /models/load':
+                this.loadModel(res, body?.model)
+                return
+            default:
+                this.send(res, 404, {error: {code: 404, message: 'File Not Found', type: 'not_found_error'}})
+        }
+    }
+
+    private describeModel(model: MockModel) {
+        return {
+            id: model.id,
+            object: 'model',
+            created: 1700000000,
+            owned_by: 'llamacpp',
+            meta: {n_ctx_train: 32768, n_embd: 4096, n_vocab: 32000},
+            ...(model.status ? {status: {value: model.status}} : {})
+        }
+    }
+
+    private sendProps(res: ServerResponse, modelId: string | null): void {
+        const model = modelId ? this.models.find(entry => entry.id === modelId) : this.models[0]
+        if (!model) {
+            this.send(res, 404, {error: {code: 404, message: 'model not found', type: 'not_found_error'}})
+            return
+        }
+        const contextSize = model.contextSize ?? this.options.contextSize ?? DEFAULT_CONTEXT_SIZE
+        this.send(res, 200, {
+            default_generation_settings: {n_ctx: contextSize, params: {n_predict: -1}},
+            total_slots: this.options.totalSlots ?? 1,
+            model_path: `/models/${model.id}.gguf`,
+            chat_template: model.chatTemplate ?? TOOL_TEMPLATE,
+            chat_template_caps: {supports_tools: true, supports_tool_calls: true},
+            modalities: {vision: false, audio: false},
+            build_info: 'b0000-mock'
+        })
+    }
+
+    private describeSlots() {
+        const total = this.options.totalSlots ?? 1
+        const contextSize = this.options.contextSize ?? DEFAULT_CONTEXT_SIZE
+        return Array.from({length: total}, (_, id) => ({
+            id,
+            n_ctx: contextSize,
+            is_processing: id < (this.options.busySlots ?? 0)
+        }))
+    }
+
+    private describeMetrics(): string {
+        return [
+            '# HELP llamacpp:prompt_tokens_total Number of prompt tokens processed.',
+            '# TYPE llamacpp:prompt_tokens_total counter',
+            'llamacpp:prompt_tokens_total 2000',
+            'llamacpp:prompt_seconds_total 2',
+            'llamacpp:tokens_predicted_total 1000',
+            'llamacpp:tokens_predicted_seconds_total 25',
+            'llamacpp:prompt_tokens_seconds 1000',
+            'llamacpp:predicted_tokens_seconds 40',
+            'llamacpp:kv_cache_usage_ratio 0.25',
+            'llamacpp:kv_cache_tokens 1024',
+            `llamacpp:requests_processing ${this.options.busySlots ?? 0}`,
+            'llamacpp:requests_deferred 0'
+        ].join('\n')
+    }
+
+    // Router mode loads in the background: the model reports "loading" until loadDelay passed
+    private loadModel(res: ServerResponse, modelId: unknown): void {
+        const model = this.models.find(entry => entry.id === modelId)
+        if (!this.options.router || !model) {
+            this.send(res, this.options.router ? 404 : 400, {error: {code: 400, message: `model not found: ${String(modelId)}`, type: 'invalid_request_error'}})
+            return
+        }
+
+        model.status = 'loading'
+        const timer = setTimeout(() => {
+            this.loadTimers.delete(timer)
+            model.status = 'loaded'
+        }, this.options.loadDelay ?? 0)
+        this.loadTimers.add(timer)
+        this.send(res, 200, {success: true})
+    }
+
+    private send(res: ServerResponse, status: number, body: unknown): void {
+        res.writeHead(status, {'Content-Type': 'application/json'})
+        res.end(JSON.stringify(body))
+    }
+
+    private sendText(res: ServerResponse, status: number, body: string): void {
+        res.writeHead(status, {'Content-Type': 'text/plain; version=0.0.4'})
+        res.end(body)
+    }
+}
+
+async function readJson(req: IncomingMessage): Promise<any> {
+    const chunks: Buffer[] = []
+    for await (const chunk of req) {
+        chunks.push(chunk as Buffer)
+    }
+    const text = Buffer.concat(chunks).toString('utf-8')
+    return text ? JSON.parse(text) : undefined
+}